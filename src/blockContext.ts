@@ -0,0 +1,136 @@
+import { getListIndex } from "./listIndex";
+import { TextDocument, TextEditor } from "./textDocument";
+
+/**
+ * The kinds of block a line of a markdown document can be in. List behaviour only
+ * applies to lines which are plain markdown content.
+ */
+export enum BlockContext {
+  markdown,
+  frontMatter,
+  codeFence,
+  htmlComment,
+  mathBlock,
+}
+
+/**
+ * Works out which kind of block each line of a markdown document is in. A block
+ * includes the lines which open and close it. Code fences which are never closed run to
+ * the end of the document.
+ *
+ * @param document The markdown document
+ * @returns The block context of each line, indexed by line number
+ */
+export function scanBlockContexts(document: TextDocument): BlockContext[] {
+  const blockContexts: BlockContext[] = [];
+  var lineNumber = 0;
+  while (lineNumber < document.lineCount) {
+    const block = scanBlock(document, lineNumber);
+    for (; lineNumber <= block.endLine; lineNumber++) {
+      blockContexts.push(block.blockContext);
+    }
+  }
+  return blockContexts;
+}
+
+/**
+ * Works out the block which starts on a line of a markdown document, which is just the
+ * line itself if it is plain markdown content. See `scanBlockContexts`.
+ *
+ * @param document The markdown document
+ * @param lineNumber The line number the block starts on, which must not be inside
+ * another block
+ * @returns The kind of block and the line number of its last line
+ */
+export function scanBlock(
+  document: TextDocument,
+  lineNumber: number
+): { blockContext: BlockContext; endLine: number } {
+  const text = document.lineAt(lineNumber).text;
+
+  // YAML or TOML front matter is only recognised at the very start of the document
+  const frontMatterMatch = lineNumber === 0 ? /^(---|\+\+\+)\s*$/.exec(text) : null;
+  if (frontMatterMatch !== null) {
+    const closingPattern =
+      frontMatterMatch[1] === "---" ? /^(---|\.\.\.)\s*$/ : /^\+\+\+\s*$/;
+    for (let i = 1; i < document.lineCount; i++) {
+      if (closingPattern.test(document.lineAt(i).text)) {
+        return { blockContext: BlockContext.frontMatter, endLine: i };
+      }
+    }
+  }
+
+  // Find the end of the block which starts on this line, if there is one
+  var blockContext = BlockContext.markdown;
+  var endLineNumber = lineNumber;
+  const fenceMatch = /^\s*(`{3,}|~{3,})([^`]*)$/.exec(text);
+  if (
+    fenceMatch !== null &&
+    (fenceMatch[1][0] === "~" || !fenceMatch[2].includes("`"))
+  ) {
+    blockContext = BlockContext.codeFence;
+    const fence = fenceMatch[1];
+    const closingPattern = new RegExp(`^\\s*${fence[0]}{${fence.length},}\\s*$`);
+    endLineNumber = document.lineCount - 1;
+    for (let i = lineNumber + 1; i < document.lineCount; i++) {
+      if (closingPattern.test(document.lineAt(i).text)) {
+        endLineNumber = i;
+        break;
+      }
+    }
+  } else if (/^\s*<!--/.test(text)) {
+    blockContext = BlockContext.htmlComment;
+    endLineNumber = findClosingLine(
+      document,
+      lineNumber,
+      text.indexOf("<!--") + 4,
+      "-->"
+    );
+  } else if (/^\s*\$\$/.test(text)) {
+    blockContext = BlockContext.mathBlock;
+    endLineNumber = findClosingLine(document, lineNumber, text.indexOf("$$") + 2, "$$");
+  }
+  return { blockContext: blockContext, endLine: endLineNumber };
+}
+
+/**
+ * Finds the line which closes a block, which is the first line containing the closing
+ * string after the opening one. If the block is never closed, it only covers the line
+ * it opens on.
+ *
+ * @param document The markdown document
+ * @param lineNumber The line number the block opens on
+ * @param character The character on the opening line after the opening string
+ * @param closingString The string which closes the block
+ * @returns The line number of the line which closes the block
+ */
+function findClosingLine(
+  document: TextDocument,
+  lineNumber: number,
+  character: number,
+  closingString: string
+): number {
+  if (document.lineAt(lineNumber).text.includes(closingString, character)) {
+    return lineNumber;
+  }
+  for (let i = lineNumber + 1; i < document.lineCount; i++) {
+    if (document.lineAt(i).text.includes(closingString)) {
+      return i;
+    }
+  }
+  return lineNumber;
+}
+
+/**
+ * Checks whether a line of a markdown document is plain markdown content, rather than
+ * being inside a code fence, front matter, HTML comment or math block. The block
+ * contexts are kept in the document's list index, which works them out again only
+ * around the lines which change.
+ *
+ * @param textEditor The text editor
+ * @param lineNumber The line number to check
+ * @returns Whether the line is plain markdown content
+ */
+export function isMarkdownLine(textEditor: TextEditor, lineNumber: number): boolean {
+  return getListIndex(textEditor).isMarkdownLine(lineNumber);
+}
@@ -0,0 +1,70 @@
+/**
+ * The pattern matching the blockquote markers at the start of a line, such as `> ` or
+ * `> > `, including the optional space after each `>`. Obsidian and GitHub callouts
+ * (`> [!NOTE]`) are blockquotes too, so the lines under them are matched the same way.
+ */
+export const quotePrefixPattern = /^(?: {0,3}> ?)*/;
+
+/**
+ * Gets the blockquote markers at the start of a line.
+ *
+ * @param text The text of the line
+ * @returns The blockquote markers, or an empty string if the line isn't quoted
+ */
+export function getQuotePrefix(text: string): string {
+  return quotePrefixPattern.exec(text)![0];
+}
+
+/**
+ * Counts how many blockquotes a line is nested in.
+ *
+ * @param text The text of the line, or just its blockquote markers
+ * @returns The number of blockquote markers at the start of the line
+ */
+export function getQuoteDepth(text: string): number {
+  return (getQuotePrefix(text).match(/>/g) ?? []).length;
+}
+
+/**
+ * Removes the innermost blockquote marker from some blockquote markers, along with the
+ * space after it.
+ *
+ * @param quotePrefix The blockquote markers
+ * @returns The blockquote markers without the last one
+ */
+export function removeInnermostQuote(quotePrefix: string): string {
+  const quoteMarkers = quotePrefix.match(/ {0,3}> ?/g) ?? [];
+  return quoteMarkers.slice(0, -1).join("");
+}
+
+/**
+ * Gets the leading whitespace of a line, after any blockquote markers.
+ *
+ * @param text The text of the line
+ * @returns The leading whitespace
+ */
+export function getIndentation(text: string): string {
+  return /^\s*/.exec(text.substring(getQuotePrefix(text).length))![0];
+}
+
+/**
+ * Gets the width of the indentation at the start of a line, after any blockquote
+ * markers, with tabs counted as the tab size.
+ *
+ * @param text The text of the line
+ * @param tabSize The tab size
+ * @returns The number of columns of indentation
+ */
+export function getIndentationWidth(text: string, tabSize: number): number {
+  return getIndentation(text).replace(/\t/g, " ".repeat(tabSize)).length;
+}
+
+/**
+ * Checks whether a line is blank, apart from any blockquote markers.
+ *
+ * @param text The text of the line
+ * @returns Whether there is nothing but whitespace after the blockquote markers
+ */
+export function isBlankLine(text: string): boolean {
+  return /^\s*$/.test(text.substring(getQuotePrefix(text).length));
+}
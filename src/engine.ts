@@ -0,0 +1,109 @@
+/**
+ * The list logic of the extension, which works on the minimal text document interfaces
+ * in `textDocument.ts` rather than on VS Code's, so that it can be used without VS
+ * Code. Commands take a text editor and return the text edits they make, or undefined
+ * when the key should do what it normally does. Settings are read from each document's
+ * front matter, then through the settings provider set with `setSettingsProvider`,
+ * falling back to the defaults.
+ */
+
+export { BlockContext, isMarkdownLine, scanBlockContexts } from "./blockContext";
+export {
+  YamlSyntaxError,
+  frontMatterKey,
+  getFrontMatter,
+  getFrontMatterSettings,
+  parseYaml,
+} from "./frontMatter";
+export { getFormatListsEdits } from "./formatting";
+export {
+  getBackspaceEdits,
+  getEnterKeyEdits,
+  getIndentEdits,
+  getOutdentEdits,
+  getShiftEnterEdits,
+  getShiftTabEdits,
+  getTabEdits,
+} from "./listCommands";
+export {
+  ListLintRule,
+  ListProblem,
+  findListProblems,
+  getFixAllTitle,
+  getListProblemFixEdits,
+} from "./listDiagnostics";
+export { ListEdit } from "./listEdit";
+export { ListIndex, getListIndex, updateListIndex } from "./listIndex";
+export {
+  EditedParsedLine,
+  NotAListItemError,
+  ParsedLine,
+  determineFullMarker,
+  determineMarkerNumber,
+  getListRange,
+  getMarkerLevels,
+} from "./listItem";
+export { getListFoldingRanges, getListSelectionRanges } from "./listRanges";
+export {
+  SettingsProvider,
+  defaultSettings,
+  getSetting,
+  getSettingsProvider,
+  readSetting,
+  setSettingsProvider,
+  settingAliases,
+  shareSettings,
+} from "./listSettings";
+export {
+  ListItemBlock,
+  ListItemDescendants,
+  getEnclosingListItemBlock,
+  getListItemBlock,
+  getListItemDescendants,
+  getNextSibling,
+  getParentListItemBlock,
+  getPreviousSibling,
+} from "./listStructure";
+export {
+  MarkdownListsrcSection,
+  MarkdownListsrcSyntaxError,
+  getMarkdownListsrcSetting,
+  globToRegExp,
+  markdownListsrcFileName,
+  parseMarkdownListsrc,
+} from "./markdownListsrc";
+export { getMoveItemEdits, renumberReorderedItems } from "./moveListItems";
+export {
+  NormalizeOptions,
+  getNormalizeListsEdits,
+  normalizeLists,
+} from "./normalizeLists";
+export { canPasteListItems, getPasteEdits } from "./pasteLists";
+export { getRewrapListItemEdits, getWrapOnTypeEdits } from "./rewrapLists";
+export { SortOptions, getSortListItemsEdits } from "./sortListItems";
+export { getToggleTaskEdits } from "./taskList";
+export { ListKind, getToggleListEdits } from "./toggleLists";
+export {
+  Position,
+  Range,
+  Selection,
+  TextDocument,
+  TextDocumentChangeEvent,
+  TextDocumentContentChange,
+  TextEdit,
+  TextEditBuilder,
+  TextEditCollector,
+  TextEditor,
+  TextEditorOptions,
+  TextEditsWithSelections,
+  TextLine,
+  comparePositions,
+  createPosition,
+  createRange,
+  createSelection,
+  createTextDocument,
+  createTextEditor,
+  getEditedText,
+  getLineBreak,
+  getLineRange,
+} from "./textDocument";
@@ -1,14 +1,50 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
-import { text } from "stream/consumers";
 import * as vscode from "vscode";
 
+import {
+  getBackspaceEdits,
+  getEnterKeyEdits,
+  getIndentEdits,
+  getOutdentEdits,
+  getShiftEnterEdits,
+  getShiftTabEdits,
+  getTabEdits,
+} from "./listCommands";
+import { updateListIndex } from "./listIndex";
+import { NotAListItemError, ParsedLine } from "./listItem";
+import { setSettingsProvider } from "./listSettings";
+import { getEnclosingListItemBlock } from "./listStructure";
+import { markdownListsrcFileName } from "./markdownListsrc";
+import { getMoveItemEdits } from "./moveListItems";
+import { getNormalizeListsEdits } from "./normalizeLists";
+import { canPasteListItems, getPasteEdits } from "./pasteLists";
+import { getRewrapListItemEdits, getWrapOnTypeEdits } from "./rewrapLists";
+import { SortOptions, getSortListItemsEdits } from "./sortListItems";
+import { getToggleTaskEdits } from "./taskList";
+import { TextEdit, TextEditsWithSelections } from "./textDocument";
+import { getToggleListEdits } from "./toggleLists";
+import {
+  ListCodeActionProvider,
+  ListFoldingRangeProvider,
+  ListFormattingProvider,
+  ListSelectionRangeProvider,
+  applyTextEdits,
+  clearSettingsCache,
+  loadMarkdownListsrc,
+  scheduleListDiagnostics,
+  toVscodeSelection,
+  unloadMarkdownListsrc,
+  updateListDiagnostics,
+  vscodeSettingsProvider,
+} from "./vscodeAdapter";
+
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
 export function activate(context: vscode.ExtensionContext) {
-  // Use the console to output diagnostic information (console.log) and errors (console.error)
-  // This line of code will only be executed once when your extension is activated
-  console.log('The "markdown-clever-lists" is extension now active');
+  // The list logic reads the user's settings and `.markdownlistsrc` files through the
+  // settings provider
+  setSettingsProvider(vscodeSettingsProvider);
 
   let enterDisposable = vscode.commands.registerTextEditorCommand(
     "markdown-clever-lists.onEnterKey",
@@ -16,6 +52,12 @@ export function activate(context: vscode.ExtensionContext) {
   );
   context.subscriptions.push(enterDisposable);
 
+  let shiftEnterDisposable = vscode.commands.registerTextEditorCommand(
+    "markdown-clever-lists.onShiftEnter",
+    onShiftEnter
+  );
+  context.subscriptions.push(shiftEnterDisposable);
+
   let outdentDisposable = vscode.commands.registerTextEditorCommand(
     "markdown-clever-lists.onOutdent",
     onOutdent
@@ -27,614 +69,627 @@ export function activate(context: vscode.ExtensionContext) {
     onIndent
   );
   context.subscriptions.push(indentDisposable);
-}
 
-// This method is called when your extension is deactivated
-export function deactivate() {}
-
-/**
- * Creates indentation up to the given level, based on the text editor's settings.
- *
- * @param textEditor The text editor
- * @param level The level of indentation to create
- *
- * @returns The indentation string
- */
-function createIndentation(textEditor: vscode.TextEditor, level: number): string {
-  if (textEditor.options.insertSpaces) {
-    const tabSize = textEditor.options.tabSize as number;
-    return " ".repeat(tabSize * level);
-  } else {
-    return "\t".repeat(level);
-  }
-}
+  let tabDisposable = vscode.commands.registerTextEditorCommand(
+    "markdown-clever-lists.onTab",
+    onTab
+  );
+  context.subscriptions.push(tabDisposable);
 
-class NotAListItemError extends Error {}
+  let shiftTabDisposable = vscode.commands.registerTextEditorCommand(
+    "markdown-clever-lists.onShiftTab",
+    onShiftTab
+  );
+  context.subscriptions.push(shiftTabDisposable);
 
-/**
- * A class to hold the various parts of a list item line
- *
- * @property line The original text line
- * @property initialSpacing All the space characters before the list marker
- * @property indentationAsSpaces All the space characters before the list marker, but
- * converted to spaces
- * @property level The indentation level, which is the floor of the number of initial
- * spaces divided by the tab size
- * @property marker The list marker
- * @property markerInitialSpaces The spaces before the marker left over after we remove
- * the indentation level times the tab size from the initial spacing
- * @property markerTrailingSpaces The spaces after the marker but before the remainder
- * of the line
- * @property remainder The remainder of the line after the list marker and trailing
- * spaces
- */
-class ParsedLine {
-  line: vscode.TextLine;
-  textEditor: vscode.TextEditor;
-  initialSpacing: string;
-  initialSpacingAsSpaces: string;
-  level: number;
-  marker: string;
-  markerInitialSpaces: string;
-  markerIsNumber: boolean;
-  markerNumber?: number;
-  markerDelimiter?: string;
-  markerTrailingSpaces: string;
-  remainder: string;
-  protected tabSize: number;
-
-  constructor(line: vscode.TextLine, textEditor: vscode.TextEditor) {
-    this.line = line;
-    this.textEditor = textEditor;
-    this.tabSize = textEditor.options.tabSize as number;
-
-    // Parse the line into its parts
-    const match = /^(\s*)([-*+](?: \[[xX ]\])?|[0-9]+[.)])( +)(.*)/.exec(line.text);
-    if (match === null) {
-      throw new NotAListItemError();
-    }
+  let backspaceDisposable = vscode.commands.registerTextEditorCommand(
+    "markdown-clever-lists.onBackspace",
+    onBackspace
+  );
+  context.subscriptions.push(backspaceDisposable);
 
-    this.initialSpacing = match[1];
-    this.initialSpacingAsSpaces = this.getInitialSpacingAsSpaces();
-    this.level = Math.floor(this.initialSpacing.length / this.tabSize);
-    this.markerInitialSpaces = this.initialSpacingAsSpaces.substring(
-      this.level * this.tabSize
-    );
-    this.marker = match[2];
-    this.markerTrailingSpaces = match[3];
-    this.remainder = match[4];
+  let moveItemUpDisposable = vscode.commands.registerTextEditorCommand(
+    "markdown-clever-lists.moveItemUp",
+    onMoveItemUp
+  );
+  context.subscriptions.push(moveItemUpDisposable);
 
-    this.markerIsNumber = false;
-    this.parseMarker();
-  }
+  let moveItemDownDisposable = vscode.commands.registerTextEditorCommand(
+    "markdown-clever-lists.moveItemDown",
+    onMoveItemDown
+  );
+  context.subscriptions.push(moveItemDownDisposable);
 
-  /**
-   * Parses the marker into its parts. If the marker is a number, it will set the marker
-   * number and delimiter. Otherwise, it won't set anything.
-   */
-  protected parseMarker(): void {
-    const markerMatch = /^([0-9]+)([.)])/.exec(this.marker);
-    if (markerMatch !== null) {
-      this.markerNumber = parseInt(markerMatch[1]);
-      this.markerDelimiter = markerMatch[2];
-      this.markerIsNumber = true;
-    } else {
-      this.markerIsNumber = false;
-    }
-  }
+  let toggleTaskDisposable = vscode.commands.registerTextEditorCommand(
+    "markdown-clever-lists.toggleTask",
+    onToggleTask
+  );
+  context.subscriptions.push(toggleTaskDisposable);
 
-  /**
-   * Returns the initial spacing with tabs converted to spaces.
-   *
-   * @returns The initial spacing as spaces
-   */
-  protected getInitialSpacingAsSpaces(): string {
-    return this.initialSpacing.replace(/\t/g, " ".repeat(this.tabSize as number));
-  }
+  let toggleBulletListDisposable = vscode.commands.registerTextEditorCommand(
+    "markdown-clever-lists.toggleBulletList",
+    onToggleBulletList
+  );
+  context.subscriptions.push(toggleBulletListDisposable);
 
-  /**
-   * Returns the full marker, which is the marker initial spaces and the marker itself.
-   *
-   * @returns The full marker
-   */
-  public getFullMarker(): string {
-    return this.markerInitialSpaces + this.marker;
-  }
+  let toggleNumberedListDisposable = vscode.commands.registerTextEditorCommand(
+    "markdown-clever-lists.toggleNumberedList",
+    onToggleNumberedList
+  );
+  context.subscriptions.push(toggleNumberedListDisposable);
 
-  /**
-   * Returns the head of the marker, which everything but the remainder of the line,
-   * i.e. the initial spacing, the marker itself, and the trailing spaces.
-   *
-   * @returns The head of the marker
-   */
-  public getHead(): string {
-    return this.initialSpacing + this.marker + this.markerTrailingSpaces;
-  }
-}
+  let toggleTaskListDisposable = vscode.commands.registerTextEditorCommand(
+    "markdown-clever-lists.toggleTaskList",
+    onToggleTaskList
+  );
+  context.subscriptions.push(toggleTaskListDisposable);
 
-/**
- * A class which holds a version of a parsed line which can be modified.
- * @extends ParsedLine
- */
-class EditedParsedLine extends ParsedLine {
-  originalParsedLine?: ParsedLine;
-
-  /*
-   * Creates an EditedParsedLine from a ParsedLine.
-   *
-   * @param parsedLine The ParsedLine to create an EditedParsedLine from
-   * @returns The EditedParsedLine
-   */
-  static fromParsedLine(parsedLine: ParsedLine): EditedParsedLine {
-    const editedParsedLine = new EditedParsedLine(
-      parsedLine.line,
-      parsedLine.textEditor
-    );
-    editedParsedLine.originalParsedLine = parsedLine;
-    return editedParsedLine;
-  }
+  let normalizeListsDisposable = vscode.commands.registerTextEditorCommand(
+    "markdown-clever-lists.normalizeLists",
+    onNormalizeLists
+  );
+  context.subscriptions.push(normalizeListsDisposable);
 
-  /**
-   * Sets the marker to the given string.
-   *
-   * @param marker The marker to set
-   */
-  public setMarker(marker: string): void {
-    this.marker = marker;
-    this.parseMarker();
-  }
+  let rewrapListItemDisposable = vscode.commands.registerTextEditorCommand(
+    "markdown-clever-lists.rewrapListItem",
+    onRewrapListItem
+  );
+  context.subscriptions.push(rewrapListItemDisposable);
 
-  /**
-   * Sets the full marker to the given string, which includes the initial spacing after
-   * the indentation.
-   *
-   * @param fullMarker The full marker to set
-   */
-  public setFullMarker(fullMarker: string): void {
-    const fullMarkerMatch = /^(\s*)([-*+](?: \[[xX ]\])?|[0-9]+[.)])/.exec(fullMarker);
-    if (fullMarkerMatch === null) {
-      throw new Error("Invalid full marker");
-    }
-    this.markerInitialSpaces = fullMarkerMatch[1];
-    this.initialSpacing = createIndentation(this.textEditor, this.level);
-    this.initialSpacing = this.initialSpacing + this.markerInitialSpaces;
-    this.initialSpacingAsSpaces = this.getInitialSpacingAsSpaces();
-    this.setMarker(fullMarkerMatch[2]);
-  }
+  let pasteDisposable = vscode.commands.registerTextEditorCommand(
+    "markdown-clever-lists.onPaste",
+    onPaste
+  );
+  context.subscriptions.push(pasteDisposable);
 
-  /**
-   * Sets the marker number, if the marker is a number. Otherwise, throws an error.
-   *
-   * @param number The number to set the marker to
-   */
-  public setMarkerNumber(number: number): void {
-    if (!this.markerIsNumber) {
-      throw new Error("Marker is not a number");
-    }
-    this.markerNumber = number;
-    this.marker = `${number}${this.markerDelimiter}`;
-  }
+  let pastePlainDisposable = vscode.commands.registerCommand(
+    "markdown-clever-lists.pastePlain",
+    onPastePlain
+  );
+  context.subscriptions.push(pastePlainDisposable);
 
-  /**
-   * Sets the indentation level to the given level.
-   *
-   * @param level The level to set the indentation to
-   */
-  public setIndentationLevel(level: number): void {
-    this.level = level;
-    this.initialSpacing = createIndentation(this.textEditor, level);
-    this.initialSpacing = this.initialSpacing + this.markerInitialSpaces;
-    this.initialSpacingAsSpaces = this.getInitialSpacingAsSpaces();
-  }
+  let sortListItemsDisposable = vscode.commands.registerTextEditorCommand(
+    "markdown-clever-lists.sortListItems",
+    onSortListItems
+  );
+  context.subscriptions.push(sortListItemsDisposable);
+
+  // Keep the list index of each document up to date as it changes, before anything
+  // else looks at the changed document
+  let listIndexDisposable = vscode.workspace.onDidChangeTextDocument(updateListIndex);
+  context.subscriptions.push(listIndexDisposable);
+
+  // Rewrap list items as the user types past the wrap column, if they have turned that
+  // on
+  let wrapOnTypeDisposable = vscode.workspace.onDidChangeTextDocument(onWrapOnType);
+  context.subscriptions.push(wrapOnTypeDisposable);
+
+  // Format lists with Format Document and Format Selection, and on save, paste and type
+  // if the user has turned those on
+  const formattingProvider = new ListFormattingProvider();
+  let formattingDisposable = vscode.languages.registerDocumentFormattingEditProvider(
+    { language: "markdown" },
+    formattingProvider
+  );
+  context.subscriptions.push(formattingDisposable);
+  let rangeFormattingDisposable =
+    vscode.languages.registerDocumentRangeFormattingEditProvider(
+      { language: "markdown" },
+      formattingProvider
+    );
+  context.subscriptions.push(rangeFormattingDisposable);
+  let onTypeFormattingDisposable =
+    vscode.languages.registerOnTypeFormattingEditProvider(
+      { language: "markdown" },
+      formattingProvider,
+      "\n"
+    );
+  context.subscriptions.push(onTypeFormattingDisposable);
 
-  /**
-   * Sets the indentation level to the given level and determines the marker based on
-   * the marker levels in the document.
-   *
-   * @param level The level to set the indentation to
-   * @param markerLevels The marker levels in the document
-   */
-  public setIndentationLevelAndDetermineMarker(
-    level: number,
-    markerLevels: string[]
-  ): void {
-    const newFullMarker = determineFullMarker(markerLevels, level);
-    this.setIndentationLevel(level);
-    this.setFullMarker(newFullMarker);
-    if (this.markerIsNumber) {
-      const newNumber = determineMarkerNumber(
-        this.textEditor,
-        this.line.lineNumber,
-        this.level
+  // Report problems in lists as they are typed, with quick fixes for them
+  const diagnostics = vscode.languages.createDiagnosticCollection(
+    "markdown-clever-lists"
+  );
+  context.subscriptions.push(diagnostics);
+  let visibleEditorsDisposable = vscode.window.onDidChangeVisibleTextEditors(
+    (textEditors) =>
+      textEditors.forEach((textEditor) =>
+        updateListDiagnostics(textEditor.document, diagnostics)
+      )
+  );
+  context.subscriptions.push(visibleEditorsDisposable);
+  let changeDocumentDisposable = vscode.workspace.onDidChangeTextDocument((event) =>
+    scheduleListDiagnostics(event.document, diagnostics)
+  );
+  context.subscriptions.push(changeDocumentDisposable);
+  let closeDocumentDisposable = vscode.workspace.onDidCloseTextDocument((document) =>
+    diagnostics.delete(document.uri)
+  );
+  context.subscriptions.push(closeDocumentDisposable);
+  let configurationDisposable = vscode.workspace.onDidChangeConfiguration((event) => {
+    if (event.affectsConfiguration("markdown-clever-lists")) {
+      clearSettingsCache();
+      vscode.workspace.textDocuments.forEach((document) =>
+        updateListDiagnostics(document, diagnostics)
       );
-      this.setMarkerNumber(newNumber);
     }
-  }
-
-  /**
-   * Updates the head of the line in the text editor to match the head of the line in
-   * the EditedParsedLine.
-   *
-   * @param edit The edit object that allows us to modify the text editor
-   */
-  public updateEditorHead(edit: vscode.TextEditorEdit): void {
-    if (this.originalParsedLine === undefined) {
-      throw new Error("Original parsed line is undefined");
-    }
-    edit.replace(
-      this.originalParsedLine.line.range.with(
-        this.originalParsedLine.line.range.start,
-        new vscode.Position(
-          this.originalParsedLine.line.lineNumber,
-          this.originalParsedLine.getHead().length
-        )
-      ),
-      this.getHead()
+  });
+  context.subscriptions.push(configurationDisposable);
+
+  // `.markdownlistsrc` files are read when their workspace folder is opened and
+  // whenever they change, so that settings can be read without waiting for them
+  const reloadMarkdownListsrc = async (folder: vscode.WorkspaceFolder) => {
+    await loadMarkdownListsrc(folder);
+    vscode.workspace.textDocuments.forEach((document) =>
+      updateListDiagnostics(document, diagnostics)
     );
+  };
+  let markdownListsrcWatcher = vscode.workspace.createFileSystemWatcher(
+    `**/${markdownListsrcFileName}`
+  );
+  const onMarkdownListsrcChange = (uri: vscode.Uri) => {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (folder !== undefined) {
+      reloadMarkdownListsrc(folder);
+    }
+  };
+  markdownListsrcWatcher.onDidChange(onMarkdownListsrcChange);
+  markdownListsrcWatcher.onDidCreate(onMarkdownListsrcChange);
+  markdownListsrcWatcher.onDidDelete(onMarkdownListsrcChange);
+  context.subscriptions.push(markdownListsrcWatcher);
+  let workspaceFoldersDisposable = vscode.workspace.onDidChangeWorkspaceFolders(
+    (event) => {
+      event.removed.forEach(unloadMarkdownListsrc);
+      event.added.forEach(reloadMarkdownListsrc);
+    }
+  );
+  context.subscriptions.push(workspaceFoldersDisposable);
+  vscode.workspace.workspaceFolders?.forEach(reloadMarkdownListsrc);
+  vscode.workspace.textDocuments.forEach((document) =>
+    updateListDiagnostics(document, diagnostics)
+  );
+  let codeActionsDisposable = vscode.languages.registerCodeActionsProvider(
+    { language: "markdown" },
+    new ListCodeActionProvider(),
+    { providedCodeActionKinds: ListCodeActionProvider.providedCodeActionKinds }
+  );
+  context.subscriptions.push(codeActionsDisposable);
+
+  // Fold list items and expand the selection through them
+  let foldingRangeDisposable = vscode.languages.registerFoldingRangeProvider(
+    { language: "markdown" },
+    new ListFoldingRangeProvider()
+  );
+  context.subscriptions.push(foldingRangeDisposable);
+  let selectionRangeDisposable = vscode.languages.registerSelectionRangeProvider(
+    { language: "markdown" },
+    new ListSelectionRangeProvider()
+  );
+  context.subscriptions.push(selectionRangeDisposable);
+
+  // Keep track of whether the cursors are on list items, so that `Tab` and `Shift+Tab`
+  // are only bound there
+  let selectionDisposable = vscode.window.onDidChangeTextEditorSelection((event) =>
+    updateListItemContext(event.textEditor)
+  );
+  context.subscriptions.push(selectionDisposable);
+  let activeEditorDisposable =
+    vscode.window.onDidChangeActiveTextEditor(updateListItemContext);
+  context.subscriptions.push(activeEditorDisposable);
+  updateListItemContext(vscode.window.activeTextEditor);
+}
+
+// This method is called when your extension is deactivated
+export function deactivate() {}
+
+/**
+ * Writes the text edits worked out for a command to the text editor, or runs a VS Code
+ * command instead if there are none, so that the key does what it normally does.
+ *
+ * @param edit The edit object that allows us to modify the text editor
+ * @param textEdits The text edits, or undefined to run the default command
+ * @param defaultCommand The command to run if there are no text edits
+ * @param args The arguments to the default command
+ */
+function applyOrRunDefault(
+  edit: vscode.TextEditorEdit,
+  textEdits: TextEdit[] | undefined,
+  defaultCommand: string,
+  ...args: unknown[]
+): void {
+  if (textEdits === undefined) {
+    vscode.commands.executeCommand(defaultCommand, ...args);
+    return;
   }
+  applyTextEdits(edit, textEdits);
 }
 
 /**
- * Get the marker heads for all indentation levels in the document, up to the given
- * maximum level.
+ * This function is called when the user presses the enter key. See `getEnterKeyEdits`.
  *
- * @param textEditor The text editor
- * @param maxLevel The maximum level to get marker heads for
- * @returns An array of marker heads, indexed by indentation level
+ * @param textEditor The text editor that the user is typing in
+ * @param edit The edit object that allows us to modify the text editor
  */
-function getMarkerLevels(textEditor: vscode.TextEditor, maxLevel: number): string[] {
-  const tabSize = textEditor.options.tabSize as number;
-  const tabAsSpaces = " ".repeat(tabSize);
-  const activeLineNumber = textEditor.selection.active.line;
-
-  var markerLevels: string[] = [];
-  var levelsRecorded = 0;
-  for (var i = 0; i < textEditor.document.lineCount; i++) {
-    // Start at the active line and work up, then down
-    var lineNumber;
-    if (i <= activeLineNumber) {
-      lineNumber = activeLineNumber - i;
-    } else {
-      lineNumber = i;
-    }
+function onEnterKey(textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit): void {
+  applyOrRunDefault(edit, getEnterKeyEdits(textEditor), "type", {
+    source: "keyboard",
+    text: "\n",
+  });
+}
 
-    const line = textEditor.document.lineAt(lineNumber);
+/**
+ * This function is called when the user presses the shift and enter keys. See
+ * `getShiftEnterEdits`.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @param edit The edit object that allows us to modify the text editor
+ */
+function onShiftEnter(
+  textEditor: vscode.TextEditor,
+  edit: vscode.TextEditorEdit
+): void {
+  applyOrRunDefault(edit, getShiftEnterEdits(textEditor), "type", {
+    source: "keyboard",
+    text: "\n",
+  });
+}
 
-    // Divide the line up into line item parts
-    var parsedLine;
-    try {
-      parsedLine = new ParsedLine(line, textEditor);
-    } catch (e) {
-      if (e instanceof NotAListItemError) {
-        continue;
-      }
-      throw e;
-    }
+/**
+ * This function is called when the selection is outdented. See `getOutdentEdits`.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @param edit The edit object that allows us to modify the text editor
+ */
+function onOutdent(textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit): void {
+  applyOrRunDefault(edit, getOutdentEdits(textEditor), "editor.action.outdentLines");
+}
 
-    // Get the indentation size of the line and the index of the `markerLevel` array
-    if (
-      markerLevels.length > parsedLine.level &&
-      markerLevels[parsedLine.level] !== undefined
-    ) {
-      continue;
-    }
-    if (parsedLine.level > maxLevel) {
-      continue;
-    }
+/**
+ * This function is called when the selection is indented. See `getIndentEdits`.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @param edit The edit object that allows us to modify the text editor
+ */
+function onIndent(textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit): void {
+  applyOrRunDefault(edit, getIndentEdits(textEditor), "editor.action.indentLines");
+}
 
-    // Get the full marker for the line, including initial spaces after the indentation
-    markerLevels[parsedLine.level] = parsedLine.getFullMarker();
+/**
+ * This function is called when the user presses `Tab` on a list item. See
+ * `getTabEdits`.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @param edit The edit object that allows us to modify the text editor
+ */
+function onTab(textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit): void {
+  applyOrRunDefault(edit, getTabEdits(textEditor), "tab");
+}
 
-    // Once we've recorded the maximum number of levels, stop
-    levelsRecorded++;
-    if (levelsRecorded > maxLevel) {
-      break;
-    }
-  }
-  return markerLevels;
+/**
+ * This function is called when the user presses `Shift+Tab` on a list item. See
+ * `getShiftTabEdits`.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @param edit The edit object that allows us to modify the text editor
+ */
+function onShiftTab(textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit): void {
+  applyOrRunDefault(edit, getShiftTabEdits(textEditor), "outdent");
 }
 
 /**
- * Determines the full marker for a given level, based on the marker levels in the
- * document. If the level is not recorded, it will use the default bullets based on the
- * user's settings.
+ * This function is called when the user presses `Backspace` on a list item. See
+ * `getBackspaceEdits`.
  *
- * @param markerLevels The marker levels in the document
- * @param level The level to get the marker for
- * @returns The full marker for the given level
+ * @param textEditor The text editor that the user is typing in
+ * @param edit The edit object that allows us to modify the text editor
  */
-function determineFullMarker(markerLevels: string[], level: number): string {
-  if (level >= markerLevels.length || markerLevels[level] === undefined) {
-    const config = vscode.workspace.getConfiguration("markdown-clever-lists");
-    const bullets = config.get("defaultMarkers") as string[];
-    if (bullets.length === 0) {
-      console.log("No default bullets set");
-      return "-";
-    }
-    return bullets[level % bullets.length];
-  } else {
-    return markerLevels[level];
-  }
+function onBackspace(textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit): void {
+  applyOrRunDefault(edit, getBackspaceEdits(textEditor), "deleteLeft");
 }
 
 /**
- * Determines the marker number for a given line based on context. If the line is not a
- * numbered list item, it will throw an error.
+ * This function is called when the user toggles task list items. See
+ * `getToggleTaskEdits`.
  *
- * @param textEditor The text editor
- * @param lineNumber The line number to get the marker number for
- * @param indentationLevel The indentation level of the line
- * @returns The marker number determined from context
+ * @param textEditor The text editor that the user is typing in
+ * @param edit The edit object that allows us to modify the text editor
  */
-function determineMarkerNumber(
+function onToggleTask(
   textEditor: vscode.TextEditor,
-  lineNumber: number,
-  indentationLevel: number
-): number {
-  // Get the most recent numbered list item above the current line
-  var number = 0;
-  var currentLineNumber = lineNumber;
-  while (currentLineNumber >= 0) {
-    currentLineNumber--;
-    const currentLine = textEditor.document.lineAt(currentLineNumber);
-    try {
-      const currentParsedLine = new ParsedLine(currentLine, textEditor);
-      if (
-        currentParsedLine.markerIsNumber &&
-        currentParsedLine.level === indentationLevel
-        ) {
-        number = currentParsedLine.markerNumber as number;
-        break;
-      }
-      if (currentParsedLine.level < indentationLevel) {
-        break;
-      }
-    } catch (e) {
-      if (e instanceof NotAListItemError) {
-        continue;
-      }
-      throw e;
-    }
-  }
+  edit: vscode.TextEditorEdit
+): void {
+  applyTextEdits(edit, getToggleTaskEdits(textEditor));
+}
 
-  return number + 1;
+/**
+ * This function is called when the user toggles a bulleted list on the selection. See
+ * `getToggleListEdits`.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @param edit The edit object that allows us to modify the text editor
+ */
+function onToggleBulletList(
+  textEditor: vscode.TextEditor,
+  edit: vscode.TextEditorEdit
+): void {
+  applyTextEdits(edit, getToggleListEdits(textEditor, "bullet"));
 }
 
 /**
- * Outdents the list item on a given line. If the line is a list item, it will will
- * decrease the indentation of the list item by one level, selecting the list marker by
- * looking upwards for next lowest marker level. If the line is not a list item, it will
- * do nothing.
+ * This function is called when the user toggles a numbered list on the selection. See
+ * `getToggleListEdits`.
  *
  * @param textEditor The text editor that the user is typing in
  * @param edit The edit object that allows us to modify the text editor
- * @param markerLevels The list of marker levels to use when outdenting the list item
- * @param parsedLine The parsed line to outdent
- * @param stopAtFirstLevel Whether to stop at the first level of indentation. If false,
- *                         will remove the last level of indentation, removing the list
- *                        item entirely if it is at the first level of indentation.
  */
-function outdentListItem(
+function onToggleNumberedList(
   textEditor: vscode.TextEditor,
-  edit: vscode.TextEditorEdit,
-  markerLevels: string[],
-  parsedLine: ParsedLine
+  edit: vscode.TextEditorEdit
 ): void {
-  if (parsedLine.level === 0) {
-    return;
-  }
-  const editedParsedLine = EditedParsedLine.fromParsedLine(parsedLine);
-  editedParsedLine.setIndentationLevelAndDetermineMarker(
-    parsedLine.level - 1,
-    markerLevels
-  );
-  editedParsedLine.updateEditorHead(edit);
+  applyTextEdits(edit, getToggleListEdits(textEditor, "numbered"));
 }
 
 /**
- * Indents the list item on a given line, changing the marker as appropriate.
+ * This function is called when the user toggles a task list on the selection. See
+ * `getToggleListEdits`.
  *
  * @param textEditor The text editor that the user is typing in
  * @param edit The edit object that allows us to modify the text editor
- * @param markerLevels The list of marker levels to use when indenting the list item
- * @param parsedLine The parsed line to indent
  */
-function indentListItem(
+function onToggleTaskList(
   textEditor: vscode.TextEditor,
-  edit: vscode.TextEditorEdit,
-  markerLevels: string[],
-  parsedLine: ParsedLine
+  edit: vscode.TextEditorEdit
 ): void {
-  const editedParsedLine = EditedParsedLine.fromParsedLine(parsedLine);
-  editedParsedLine.setIndentationLevelAndDetermineMarker(
-    parsedLine.level + 1,
-    markerLevels
-  );
-  editedParsedLine.updateEditorHead(edit);
+  applyTextEdits(edit, getToggleListEdits(textEditor, "task"));
 }
 
 /**
- * This function is called when the user presses the enter key. It will continue the
- * list item if the cursor is on a nonempty list item. If the cursor is on an empty list
- * item, it will outdent the list item. Otherwise, it will insert a new line as normal.
- * Works with multiple cursors.
+ * This function is called when the user normalizes the lists in the document, or in
+ * the selections if there are any. See `getNormalizeListsEdits`.
  *
  * @param textEditor The text editor that the user is typing in
  * @param edit The edit object that allows us to modify the text editor
  */
-function onEnterKey(textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit): void {
-  const tabSize = textEditor.options.tabSize as number;
-  const tabAsSpaces = " ".repeat(tabSize);
-  const config = vscode.workspace.getConfiguration("markdown-clever-lists");
-
-  // Check if every cursor is at the end of a list item line (excluding whitespace) and
-  // get the maximum indentation level of the list items
-  var allCursorsOnListItems = true;
-  var maxLevel = 0;
-  for (const selection of textEditor.selections) {
-    const line = textEditor.document.lineAt(selection.active.line);
-    var parsedLine;
-    try {
-      parsedLine = new ParsedLine(line, textEditor);
-    } catch (e) {
-      if (e instanceof NotAListItemError) {
-        allCursorsOnListItems = false;
-        break;
-      }
-      throw e;
-    }
-    if (!/^\s*$/.test(line.text.substring(selection.active.character))) {
-      allCursorsOnListItems = false;
-      break;
-    }
-    if (parsedLine.level > maxLevel) {
-      maxLevel = parsedLine.level;
-    }
-  }
+function onNormalizeLists(
+  textEditor: vscode.TextEditor,
+  edit: vscode.TextEditorEdit
+): void {
+  applyTextEdits(edit, getNormalizeListsEdits(textEditor));
+}
+
+/**
+ * This function is called when the user rewraps the list items on the lines covered by
+ * the selections. See `getRewrapListItemEdits`.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @param edit The edit object that allows us to modify the text editor
+ */
+function onRewrapListItem(
+  textEditor: vscode.TextEditor,
+  edit: vscode.TextEditorEdit
+): void {
+  applyTextEdits(edit, getRewrapListItemEdits(textEditor));
+}
 
-  // Not every cursor is on a list item, so just insert a new line as normal
-  if (!allCursorsOnListItems) {
-    vscode.commands.executeCommand("type", {
-      source: "keyboard",
-      text: "\n",
-    });
+/**
+ * This function is called when a document changes, and rewraps the paragraph of the
+ * list item being typed in once it goes past the wrap column. See
+ * `getWrapOnTypeEdits`. The rewrap is undone along with the typing which caused it.
+ *
+ * The rewrap is made once VS Code has finished telling listeners about the change, and
+ * only if the text editor is still open and the document is still at the version the
+ * rewrap was worked out for. If the user has typed on in the meantime, or VS Code turns
+ * the edit down because the document changed while it was being made, the rewrap is
+ * dropped, and made when the next space is typed on the line instead.
+ *
+ * @param event The change to the document
+ */
+async function onWrapOnType(event: vscode.TextDocumentChangeEvent): Promise<void> {
+  const textEditor = vscode.window.activeTextEditor;
+  if (
+    textEditor === undefined ||
+    textEditor.document !== event.document ||
+    event.document.languageId !== "markdown" ||
+    event.reason !== undefined
+  ) {
+    return;
+  }
+  const textEdits = getWrapOnTypeEdits(textEditor, event);
+  if (textEdits === undefined) {
     return;
   }
+  const version = event.document.version;
+  await new Promise((resolve) => setTimeout(resolve));
+  if (
+    !vscode.window.visibleTextEditors.includes(textEditor) ||
+    event.document.version !== version
+  ) {
+    return;
+  }
+  await textEditor.edit((edit) => applyTextEdits(edit, textEdits), {
+    undoStopBefore: false,
+    undoStopAfter: false,
+  });
+}
 
-  // Get the list markers for each level of indentation we might need
-  const markerLevels = getMarkerLevels(textEditor, maxLevel - 1);
-
-  for (const selection of textEditor.selections) {
-    // Split the line into the indentation and the text
-    const cursorPosition = selection.active;
-    const line = textEditor.document.lineAt(cursorPosition.line);
-    var parsedLine;
-    try {
-      parsedLine = new ParsedLine(line, textEditor);
-    } catch (e) {
-      if (e instanceof NotAListItemError) {
-        console.error(`Line '${line.text}' should be a list item but isn't`);
-        edit.insert(cursorPosition, "\n");
-        continue;
-      }
-      throw e;
-    }
+/**
+ * Writes the text edits worked out for a command which moves lines around to the text
+ * editor, and then moves the selections to where they go.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @param textEditsWithSelections The text edits and the selections
+ */
+async function applyTextEditsWithSelections(
+  textEditor: vscode.TextEditor,
+  textEditsWithSelections: TextEditsWithSelections
+): Promise<void> {
+  await textEditor.edit((edit) =>
+    applyTextEdits(edit, textEditsWithSelections.textEdits)
+  );
+  textEditor.selections = textEditsWithSelections.selections.map(toVscodeSelection);
+}
 
-    if (parsedLine.remainder === "") {
-      // If the line consists of just a list marker, either outdent or remove it
-      if (config.get("blankListItemBehaviour") === "Remove List Item") {
-        edit.delete(line.range);
-      } else {
-        outdentListItem(textEditor, edit, markerLevels, parsedLine);
-      }
-    } else {
-      // Otherwise insert a new line with the current list marker style
-      const newParsedLine = EditedParsedLine.fromParsedLine(parsedLine);
-      if (newParsedLine.markerIsNumber) {
-        const newNumber = determineMarkerNumber(
-          textEditor,
-          line.lineNumber + 1,
-          parsedLine.level
-        );
-        newParsedLine.setMarkerNumber(newNumber);
-      }
-      edit.insert(cursorPosition, "\n" + newParsedLine.getHead());
-    }
+/**
+ * This function is called when the user moves list items up. See `getMoveItemEdits`.
+ * If no cursor is on a list item, the lines are moved as normal.
+ *
+ * @param textEditor The text editor that the user is typing in
+ */
+async function onMoveItemUp(textEditor: vscode.TextEditor): Promise<void> {
+  const textEditsWithSelections = getMoveItemEdits(textEditor, "up");
+  if (textEditsWithSelections === undefined) {
+    await vscode.commands.executeCommand("editor.action.moveLinesUpAction");
+    return;
   }
+  await applyTextEditsWithSelections(textEditor, textEditsWithSelections);
 }
 
 /**
- * This function is called the selection is outdented. It changes all list item markers
- * in the selection to the previous marker level. If there is any line in the selections
- * or the previous line that is not a list item, it just executes the default outdent
- * command on everything.
+ * This function is called when the user moves list items down. See
+ * `getMoveItemEdits`. If no cursor is on a list item, the lines are moved as normal.
  *
  * @param textEditor The text editor that the user is typing in
- * @param edit The edit object that allows us to modify the text editor
  */
-function onOutdent(textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit): void {
-  // Compute the line parts and maximum marker indent level in the selections, and check
-  // whether or not we should used the default outdent command
-  var maxLevel = 0;
-  var parsedLines: ParsedLine[][] = [];
-  for (let j = 0; j < textEditor.selections.length; j++) {
-    const selection = textEditor.selections[j];
-    parsedLines[j] = [];
-    for (let i = Math.max(0, selection.start.line - 1); i <= selection.end.line; i++) {
-      var currentParsedLine;
-      try {
-        currentParsedLine = new ParsedLine(textEditor.document.lineAt(i), textEditor);
-      } catch (e) {
-        if (e instanceof NotAListItemError) {
-          vscode.commands.executeCommand("editor.action.outdentLines");
-          return;
-        }
-        throw e;
-      }
-      if (i > selection.start.line - 1) {
-        parsedLines[j].push(currentParsedLine);
-        if (currentParsedLine.level > maxLevel) {
-          maxLevel = currentParsedLine.level;
-        }
-      }
-    }
+async function onMoveItemDown(textEditor: vscode.TextEditor): Promise<void> {
+  const textEditsWithSelections = getMoveItemEdits(textEditor, "down");
+  if (textEditsWithSelections === undefined) {
+    await vscode.commands.executeCommand("editor.action.moveLinesDownAction");
+    return;
   }
+  await applyTextEditsWithSelections(textEditor, textEditsWithSelections);
+}
 
-  // Get the list markers for each level of indentation we might need
-  const markerLevels = getMarkerLevels(textEditor, maxLevel - 1);
+/**
+ * Asks the user how to sort list items.
+ *
+ * @returns How to sort the list items, or undefined if the user cancelled
+ */
+async function pickSortOptions(): Promise<SortOptions | undefined> {
+  const keyItem = await vscode.window.showQuickPick(
+    [
+      { label: "Alphabetically", key: "alphabetical", caseSensitive: false },
+      {
+        label: "Alphabetically (Case Sensitive)",
+        key: "alphabetical",
+        caseSensitive: true,
+      },
+      { label: "Numerically", key: "numeric", caseSensitive: false },
+      { label: "Open Tasks First", key: "checkbox", caseSensitive: false },
+    ] as const,
+    { placeHolder: "Sort list items" }
+  );
+  if (keyItem === undefined) {
+    return undefined;
+  }
+  const scopeItem = await vscode.window.showQuickPick(
+    [
+      { label: "This Level", recursive: false },
+      { label: "All Levels", recursive: true },
+    ],
+    { placeHolder: "Sort the nested lists too?" }
+  );
+  if (scopeItem === undefined) {
+    return undefined;
+  }
+  return {
+    key: keyItem.key,
+    recursive: scopeItem.recursive,
+    caseSensitive: keyItem.caseSensitive,
+    locale: vscode.env.language,
+  };
+}
 
-  for (let j = 0; j < textEditor.selections.length; j++) {
-    const selection = textEditor.selections[j];
-    for (let i = 0; i <= selection.end.line - selection.start.line; i++) {
-      outdentListItem(textEditor, edit, markerLevels, parsedLines[j][i]);
-    }
+/**
+ * This function is called when the user sorts list items. See `getSortListItemsEdits`.
+ * If the options aren't given, the user is asked for them, as long as the cursor is in
+ * a list.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @param edit The edit object, which isn't used since the edit is made after asking
+ * the user how to sort
+ * @param options How to sort the list items
+ */
+async function onSortListItems(
+  textEditor: vscode.TextEditor,
+  edit?: vscode.TextEditorEdit,
+  options?: SortOptions
+): Promise<void> {
+  if (
+    getEnclosingListItemBlock(textEditor, textEditor.selection.active.line) ===
+    undefined
+  ) {
+    return;
+  }
+  options = options ?? (await pickSortOptions());
+  if (options === undefined) {
+    return;
+  }
+  const textEditsWithSelections = getSortListItemsEdits(textEditor, options);
+  if (textEditsWithSelections !== undefined) {
+    await applyTextEditsWithSelections(textEditor, textEditsWithSelections);
   }
 }
 
 /**
- * This function is called the selection is indented. It changes all list item markers
- * in the selection to the previous marker level. If there is any line in the selections
- * or the previous line that is not a list item, it just executes the default indent
- * command on everything.
+ * This function is called when the user pastes onto a blank list item, or onto a blank
+ * line in a list. See `getPasteEdits`. Anything which isn't a list item is pasted as
+ * normal.
  *
  * @param textEditor The text editor that the user is typing in
- * @param edit The edit object that allows us to modify the text editor
  */
-function onIndent(textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit): void {
-  // Compute the line parts and maximum marker indent level in the selections, and check
-  // whether or not we should used the default outdent command
-  var maxLevel = 0;
-  var parsedLine: ParsedLine[][] = [];
-  for (let j = 0; j < textEditor.selections.length; j++) {
-    const selection = textEditor.selections[j];
-    parsedLine[j] = [];
-    for (let i = Math.max(0, selection.start.line - 1); i <= selection.end.line; i++) {
-      var currentParsedLine;
+async function onPaste(textEditor: vscode.TextEditor): Promise<void> {
+  const text = await vscode.env.clipboard.readText();
+  const textEdits = getPasteEdits(textEditor, text);
+  if (textEdits === undefined) {
+    await vscode.commands.executeCommand("editor.action.clipboardPasteAction");
+    return;
+  }
+  await textEditor.edit((edit) => applyTextEdits(edit, textEdits));
+}
+
+/**
+ * This function is called when the user pastes without adjusting lists, which pastes
+ * as normal.
+ */
+async function onPastePlain(): Promise<void> {
+  await vscode.commands.executeCommand("editor.action.clipboardPasteAction");
+}
+
+/**
+ * Sets the `markdown-clever-lists.onListItem` context key, which is true when any of
+ * the cursors in a markdown text editor is on a list item line, and the
+ * `markdown-clever-lists.canPasteListItems` context key, which is true when pasted list
+ * items would be adjusted to fit the list at the cursor. The list commands leave the
+ * lines under the other cursors as they would normally be handled.
+ *
+ * @param textEditor The text editor to check, if there is one
+ */
+function updateListItemContext(textEditor: vscode.TextEditor | undefined): void {
+  var onListItem = false;
+  var canPaste = false;
+  if (textEditor !== undefined && textEditor.document.languageId === "markdown") {
+    canPaste = canPasteListItems(textEditor);
+    for (const selection of textEditor.selections) {
       try {
-        currentParsedLine = new ParsedLine(textEditor.document.lineAt(i), textEditor);
+        new ParsedLine(textEditor.document.lineAt(selection.active.line), textEditor);
       } catch (e) {
         if (e instanceof NotAListItemError) {
-          vscode.commands.executeCommand("editor.action.indentLines");
-          return;
+          continue;
         }
         throw e;
       }
-      if (i > selection.start.line - 1) {
-        parsedLine[j].push(currentParsedLine);
-        if (currentParsedLine.level > maxLevel) {
-          maxLevel = currentParsedLine.level;
-        }
-      }
-    }
-  }
-
-  // Get the list markers for each level of indentation we might need
-  const markerLevels = getMarkerLevels(textEditor, maxLevel + 1);
-
-  for (let j = 0; j < textEditor.selections.length; j++) {
-    const selection = textEditor.selections[j];
-    for (let i = 0; i <= selection.end.line - selection.start.line; i++) {
-      indentListItem(textEditor, edit, markerLevels, parsedLine[j][i]);
+      onListItem = true;
+      break;
     }
   }
+  vscode.commands.executeCommand(
+    "setContext",
+    "markdown-clever-lists.onListItem",
+    onListItem
+  );
+  vscode.commands.executeCommand(
+    "setContext",
+    "markdown-clever-lists.canPasteListItems",
+    canPaste
+  );
 }
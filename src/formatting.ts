@@ -0,0 +1,32 @@
+import { ListEdit } from "./listEdit";
+import { getSetting } from "./listSettings";
+import { NormalizeOptions, normalizeLists } from "./normalizeLists";
+import { TextEdit, TextEditor } from "./textDocument";
+
+/**
+ * Works out how to normalize the lists in some ranges of a document, applying the
+ * normalizations chosen in the user's formatting settings. This is what Format
+ * Document, Format Selection and formatting on save, paste and type do. See
+ * `normalizeLists`.
+ *
+ * @param textEditor The text editor showing the document to format
+ * @param ranges The first and last line numbers of each range of lines to format
+ * @returns The text edits which format the lists
+ */
+export function getFormatListsEdits(
+  textEditor: TextEditor,
+  ranges: { startLine: number; endLine: number }[]
+): TextEdit[] {
+  const document = textEditor.document;
+  const normalizeOptions: NormalizeOptions = {
+    bullets: getSetting("formatBullets", document) as boolean,
+    indentation: getSetting("formatIndentation", document) as boolean,
+    markerSpacing: getSetting("formatMarkerSpacing", document) as boolean,
+  };
+  const listEdit = new ListEdit(
+    textEditor,
+    getSetting("formatNumbering", document) as boolean
+  );
+  normalizeLists(textEditor, listEdit, ranges, normalizeOptions);
+  return listEdit.getTextEdits();
+}
@@ -0,0 +1,423 @@
+import { TextDocument } from "./textDocument";
+
+/**
+ * The key in the front matter of a document which holds its list settings.
+ */
+export const frontMatterKey = "clever-lists";
+
+/**
+ * Thrown when YAML can't be parsed.
+ */
+export class YamlSyntaxError extends Error {}
+
+/**
+ * A line of YAML, without its comment.
+ *
+ * @property indent The number of spaces the line is indented by
+ * @property text The text of the line, without its indentation
+ */
+interface YamlLine {
+  indent: number;
+  text: string;
+}
+
+const yamlEscapes = new Map<string, string>([
+  ["0", "\0"],
+  ["a", "\x07"],
+  ["b", "\b"],
+  ["t", "\t"],
+  ["\t", "\t"],
+  ["n", "\n"],
+  ["v", "\v"],
+  ["f", "\f"],
+  ["r", "\r"],
+  ["e", "\x1b"],
+  [" ", " "],
+  ['"', '"'],
+  ["/", "/"],
+  ["\\", "\\"],
+  ["N", "\x85"],
+  ["_", "\xa0"],
+  ["L", "\u2028"],
+  ["P", "\u2029"],
+]);
+
+/**
+ * Parses a double-quoted YAML scalar, which unlike JSON has escapes such as `\x41` and
+ * `\e`, and doesn't allow unknown escapes such as `\p`.
+ *
+ * @param text The scalar, including its quotes
+ * @returns The value of the scalar
+ */
+function parseYamlDoubleQuoted(text: string): string {
+  return text
+    .substring(1, text.length - 1)
+    .replace(
+      /\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|.)/g,
+      (escape, code) => {
+        if (/^[xuU]./.test(code)) {
+          const codePoint = parseInt(code.substring(1), 16);
+          if (codePoint > 0x10ffff) {
+            throw new YamlSyntaxError(`Invalid escape ${escape} in ${text}`);
+          }
+          return String.fromCodePoint(codePoint);
+        }
+        const character = yamlEscapes.get(code);
+        if (character === undefined) {
+          throw new YamlSyntaxError(`Invalid escape ${escape} in ${text}`);
+        }
+        return character;
+      }
+    );
+}
+
+/**
+ * Parses a plain or quoted YAML scalar. Plain scalars which look like booleans, null or
+ * numbers are converted to them, and anything else is a string.
+ *
+ * @param text The scalar
+ * @returns The value of the scalar
+ */
+function parseYamlScalar(text: string): unknown {
+  text = text.trim();
+  if (/^"(?:[^"\\]|\\.)*"$/.test(text)) {
+    return parseYamlDoubleQuoted(text);
+  }
+  if (/^'(?:[^']|'')*'$/.test(text)) {
+    return text.substring(1, text.length - 1).replace(/''/g, "'");
+  }
+  if (/^(true|false)$/i.test(text)) {
+    return text.toLowerCase() === "true";
+  }
+  if (/^(null|~)?$/i.test(text)) {
+    return null;
+  }
+  if (/^[-+]?\d+(\.\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  return text;
+}
+
+/**
+ * Finds where a YAML key ends and its value starts, which is at the first `: ` (or `:`
+ * at the end of the text) outside quotes.
+ *
+ * @param text The text of a mapping entry
+ * @returns The index of the colon, or -1 if the text isn't a mapping entry
+ */
+function findKeySeparator(text: string): number {
+  var quote: string | undefined = undefined;
+  for (let i = 0; i < text.length; i++) {
+    const character = text[i];
+    if (quote !== undefined) {
+      if (character === "\\" && quote === '"') {
+        i++;
+      } else if (character === quote) {
+        quote = undefined;
+      }
+    } else if (i === 0 && (character === '"' || character === "'")) {
+      quote = character;
+    } else if (character === ":" && (i === text.length - 1 || text[i + 1] === " ")) {
+      return i;
+    } else if ("[]{},".includes(character) && i === 0) {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parses a YAML flow collection (`[...]` or `{...}`) or scalar, such as the value of a
+ * mapping entry.
+ *
+ * @param text The flow collection or scalar
+ * @returns The value
+ */
+function parseYamlFlow(text: string): unknown {
+  var index = 0;
+
+  const skipSpaces = () => {
+    while (index < text.length && /\s/.test(text[index])) {
+      index++;
+    }
+  };
+
+  const parseValue = (terminators: string): unknown => {
+    skipSpaces();
+    const character = text[index];
+    if (character === "[") {
+      index++;
+      const items: unknown[] = [];
+      skipSpaces();
+      while (text[index] !== "]") {
+        items.push(parseValue(",]"));
+        skipSpaces();
+        if (text[index] === ",") {
+          index++;
+          skipSpaces();
+        } else if (text[index] !== "]") {
+          throw new YamlSyntaxError(`Expected , or ] in ${text}`);
+        }
+      }
+      index++;
+      return items;
+    }
+    if (character === "{") {
+      index++;
+      const mapping: { [key: string]: unknown } = {};
+      skipSpaces();
+      while (text[index] !== "}") {
+        const key = parseValue(":,}");
+        skipSpaces();
+        if (text[index] !== ":") {
+          throw new YamlSyntaxError(`Expected : in ${text}`);
+        }
+        index++;
+        mapping[String(key)] = parseValue(",}");
+        skipSpaces();
+        if (text[index] === ",") {
+          index++;
+          skipSpaces();
+        } else if (text[index] !== "}") {
+          throw new YamlSyntaxError(`Expected , or } in ${text}`);
+        }
+      }
+      index++;
+      return mapping;
+    }
+
+    // A scalar runs up to whatever ends it in the collection it's in, or to the end of
+    // the text if it's quoted or not in a collection
+    const start = index;
+    if (character === '"' || character === "'") {
+      const quoteMatch = (
+        character === '"' ? /^"(?:[^"\\]|\\.)*"/ : /^'(?:[^']|'')*'/
+      ).exec(text.substring(index));
+      if (quoteMatch === null) {
+        throw new YamlSyntaxError(`Unterminated string in ${text}`);
+      }
+      index += quoteMatch[0].length;
+    } else {
+      // Colons only end keys, and only when followed by a space or the end of the key
+      while (index < text.length) {
+        const isTerminator =
+          text[index] === ":"
+            ? terminators.includes(":") && !/[^\s,}]/.test(text[index + 1] ?? " ")
+            : terminators.includes(text[index]);
+        if (isTerminator) {
+          break;
+        }
+        index++;
+      }
+    }
+    return parseYamlScalar(text.substring(start, index));
+  };
+
+  if (!/^\s*[[{]/.test(text)) {
+    return parseYamlScalar(text);
+  }
+  const value = parseValue("");
+  skipSpaces();
+  if (index < text.length) {
+    throw new YamlSyntaxError(`Unexpected text after ${text.substring(0, index)}`);
+  }
+  return value;
+}
+
+/**
+ * Takes the comment off the end of a line of YAML. Comments start with a `#` at the
+ * start of the line or after a space, outside quotes.
+ *
+ * @param line The line
+ * @returns The line without its comment
+ */
+function stripYamlComment(line: string): string {
+  var quote: string | undefined = undefined;
+  for (let i = 0; i < line.length; i++) {
+    const character = line[i];
+    if (quote !== undefined) {
+      if (character === "\\" && quote === '"') {
+        i++;
+      } else if (character === quote) {
+        quote = undefined;
+      }
+    } else if (
+      (character === '"' || character === "'") &&
+      /^$|[\s[{,:-]$/.test(line.substring(i - 1, i))
+    ) {
+      quote = character;
+    } else if (character === "#" && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.substring(0, i);
+    }
+  }
+  return line;
+}
+
+/**
+ * Parses the block of YAML lines at an indentation, starting from a line, along with
+ * everything nested under it.
+ *
+ * @param lines The lines of YAML
+ * @param start The index of the first line of the block
+ * @param indent The indentation of the block
+ * @returns The value of the block and the index of the line after it
+ */
+function parseYamlBlock(
+  lines: YamlLine[],
+  start: number,
+  indent: number
+): { value: unknown; end: number } {
+  var index = start;
+  const isSequence = /^-( |$)/.test(lines[start].text);
+  const sequence: unknown[] = [];
+  const mapping: { [key: string]: unknown } = {};
+
+  // Parses what follows an item marker or a key: a value on the same line, or a block
+  // nested under the line
+  const parseNested = (text: string): unknown => {
+    index++;
+    if (text !== "") {
+      return parseYamlFlow(text);
+    }
+    // Sequences under a key can be indented as far as the key itself
+    if (
+      index < lines.length &&
+      (lines[index].indent > indent ||
+        (!isSequence &&
+          lines[index].indent === indent &&
+          /^-( |$)/.test(lines[index].text)))
+    ) {
+      const nested = parseYamlBlock(lines, index, lines[index].indent);
+      index = nested.end;
+      return nested.value;
+    }
+    return null;
+  };
+
+  while (index < lines.length && lines[index].indent === indent) {
+    const text = lines[index].text;
+    if (isSequence) {
+      const itemMatch = /^-( +|$)(.*)$/.exec(text);
+      if (itemMatch === null) {
+        break;
+      }
+
+      // A mapping can start on the same line as the item marker, in which case it's
+      // indented to where its first key starts
+      const itemText = itemMatch[2];
+      if (itemText !== "" && findKeySeparator(itemText) !== -1) {
+        lines[index] = { indent: indent + 1 + itemMatch[1].length, text: itemText };
+        const nested = parseYamlBlock(lines, index, lines[index].indent);
+        index = nested.end;
+        sequence.push(nested.value);
+      } else {
+        sequence.push(parseNested(itemText));
+      }
+    } else {
+      const separator = findKeySeparator(text);
+      if (separator === -1) {
+        throw new YamlSyntaxError(`Expected a mapping entry: ${text}`);
+      }
+      const key = String(parseYamlScalar(text.substring(0, separator)));
+      mapping[key] = parseNested(text.substring(separator + 1).trim());
+    }
+  }
+  if (index < lines.length && lines[index].indent > indent) {
+    throw new YamlSyntaxError(`Unexpected indentation: ${lines[index].text}`);
+  }
+  return { value: isSequence ? sequence : mapping, end: index };
+}
+
+/**
+ * Parses the subset of YAML used in front matter: block mappings and sequences, flow
+ * collections (`[...]` and `{...}`), plain and quoted scalars, and comments. Anchors,
+ * tags and multi-line scalars aren't supported.
+ *
+ * @param text The YAML
+ * @returns The value of the YAML, or null if it's empty
+ */
+export function parseYaml(text: string): unknown {
+  const lines: YamlLine[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^( *)(.*?)\s*$/.exec(stripYamlComment(line)) as RegExpExecArray;
+    if (match[2] !== "") {
+      lines.push({ indent: match[1].length, text: match[2] });
+    }
+  }
+  if (lines.length === 0) {
+    return null;
+  }
+  if (lines.length === 1 && findKeySeparator(lines[0].text) === -1) {
+    return parseYamlFlow(lines[0].text);
+  }
+  const { value, end } = parseYamlBlock(lines, 0, lines[0].indent);
+  if (end < lines.length) {
+    throw new YamlSyntaxError(`Unexpected indentation: ${lines[end].text}`);
+  }
+  return value;
+}
+
+/**
+ * Gets the YAML front matter of a document: the lines between a `---` on the first line
+ * and the next `---` or `...`.
+ *
+ * @param document The document
+ * @returns The text of the front matter, or undefined if the document doesn't have any
+ */
+export function getFrontMatter(document: TextDocument): string | undefined {
+  if (document.lineCount === 0 || !/^---\s*$/.test(document.lineAt(0).text)) {
+    return undefined;
+  }
+  const lines: string[] = [];
+  for (let i = 1; i < document.lineCount; i++) {
+    const text = document.lineAt(i).text;
+    if (/^(---|\.\.\.)\s*$/.test(text)) {
+      return lines.join("\n");
+    }
+    lines.push(text);
+  }
+  return undefined;
+}
+
+const frontMatterSettingsCache = new WeakMap<
+  TextDocument,
+  { version: number; settings: { [key: string]: unknown } }
+>();
+
+/**
+ * Gets the list settings in the front matter of a document, under the `clever-lists`
+ * key. Front matter which can't be parsed is ignored. The settings are only read again
+ * when the document changes.
+ *
+ * @param document The document
+ * @returns The settings, keyed as they are in the front matter
+ */
+export function getFrontMatterSettings(document: TextDocument): {
+  [key: string]: unknown;
+} {
+  var cached = frontMatterSettingsCache.get(document);
+  if (cached === undefined || cached.version !== document.version) {
+    var settings: unknown = undefined;
+    const frontMatter = getFrontMatter(document);
+    if (frontMatter !== undefined) {
+      try {
+        const parsed = parseYaml(frontMatter);
+        if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+          settings = (parsed as { [key: string]: unknown })[frontMatterKey];
+        }
+      } catch (e) {
+        // Front matter is written for other tools too, so anything in it which can't be
+        // read just means there are no list settings
+      }
+    }
+    cached = {
+      version: document.version,
+      settings:
+        typeof settings === "object" && settings !== null && !Array.isArray(settings)
+          ? (settings as { [key: string]: unknown })
+          : {},
+    };
+    frontMatterSettingsCache.set(document, cached);
+  }
+  return cached.settings;
+}
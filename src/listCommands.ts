@@ -0,0 +1,638 @@
+import { isMarkdownLine } from "./blockContext";
+import {
+  getIndentation,
+  getIndentationWidth,
+  getQuoteDepth,
+  getQuotePrefix,
+  isBlankLine,
+  removeInnermostQuote,
+} from "./blockquote";
+import { ListEdit } from "./listEdit";
+import {
+  EditedParsedLine,
+  NotAListItemError,
+  ParsedLine,
+  createIndentationOfWidth,
+  determineMarkerNumber,
+  getMarkerLevels,
+} from "./listItem";
+import { getSetting } from "./listSettings";
+import {
+  getEnclosingListItemBlock,
+  getListItemDescendants,
+  getPreviousSibling,
+} from "./listStructure";
+import {
+  TextEdit,
+  TextEditCollector,
+  TextEditor,
+  TextLine,
+  comparePositions,
+  createPosition,
+  createRange,
+  getLineBreak,
+  getLineRange,
+} from "./textDocument";
+
+/**
+ * Shifts a list item and everything nested under it by some number of indentation
+ * levels. The markers of the list items are chosen again for their new levels, and each
+ * continuation paragraph moves by as much as the content of the list item it belongs
+ * to, so that it stays part of that list item.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @param listEdit The list edit to add the change to
+ * @param markerLevels The list of marker levels to use for the new levels
+ * @param parsedLine The parsed line to shift
+ * @param levelChange The number of levels to shift by, which is negative to outdent
+ */
+function shiftListItemSubtree(
+  textEditor: TextEditor,
+  listEdit: ListEdit,
+  markerLevels: string[],
+  parsedLine: ParsedLine,
+  levelChange: number
+): void {
+  const tabSize = textEditor.options.tabSize as number;
+  const descendants = getListItemDescendants(textEditor, parsedLine);
+  const shiftedItems = [parsedLine, ...descendants.listItems].map(
+    (currentParsedLine) => {
+      const editedParsedLine = listEdit.editLine(currentParsedLine);
+      editedParsedLine.setIndentationLevelAndDetermineMarker(
+        currentParsedLine.level + levelChange,
+        markerLevels
+      );
+      return {
+        lineNumber: currentParsedLine.line.lineNumber,
+        level: currentParsedLine.level,
+        originalContentColumn: currentParsedLine.getContentColumn(),
+        contentColumn: editedParsedLine.getContentColumn(),
+      };
+    }
+  );
+
+  // Each paragraph belongs to the closest list item above it whose content it is
+  // indented as far as, or to the shifted list item itself
+  var openItems = [shiftedItems[0]];
+  var nextItem = 1;
+  for (const line of descendants.continuationLines) {
+    while (
+      nextItem < shiftedItems.length &&
+      shiftedItems[nextItem].lineNumber < line.lineNumber
+    ) {
+      const item = shiftedItems[nextItem++];
+      while (
+        openItems.length > 1 &&
+        openItems[openItems.length - 1].level >= item.level
+      ) {
+        openItems.pop();
+      }
+      openItems.push(item);
+    }
+    const indentation = getIndentationWidth(line.text, tabSize);
+    while (
+      openItems.length > 1 &&
+      openItems[openItems.length - 1].originalContentColumn > indentation
+    ) {
+      openItems.pop();
+    }
+    const owner = openItems[openItems.length - 1];
+    listEdit.reindentLine(
+      line,
+      createIndentationOfWidth(
+        textEditor,
+        Math.max(0, indentation + owner.contentColumn - owner.originalContentColumn)
+      )
+    );
+  }
+}
+
+/**
+ * Outdents a list item by one level, along with all the lines nested under it,
+ * selecting the list marker by looking upwards for the next lowest marker level. A list
+ * item which is already at the first level is left as it is.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @param listEdit The list edit to add the change to
+ * @param markerLevels The list of marker levels to use when outdenting the list item
+ * @param parsedLine The parsed line to outdent
+ */
+function outdentListItem(
+  textEditor: TextEditor,
+  listEdit: ListEdit,
+  markerLevels: string[],
+  parsedLine: ParsedLine
+): void {
+  if (parsedLine.level === 0) {
+    return;
+  }
+  shiftListItemSubtree(textEditor, listEdit, markerLevels, parsedLine, -1);
+}
+
+/**
+ * Indents the list item on a given line, along with all the lines nested under it,
+ * changing the markers as appropriate.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @param listEdit The list edit to add the change to
+ * @param markerLevels The list of marker levels to use when indenting the list item
+ * @param parsedLine The parsed line to indent
+ */
+function indentListItem(
+  textEditor: TextEditor,
+  listEdit: ListEdit,
+  markerLevels: string[],
+  parsedLine: ParsedLine
+): void {
+  shiftListItemSubtree(textEditor, listEdit, markerLevels, parsedLine, 1);
+}
+
+/**
+ * Checks whether a line is in a blockquote but has nothing else on it, like `> `.
+ *
+ * @param textEditor The text editor
+ * @param line The line to check
+ * @returns Whether the line is an empty blockquote line
+ */
+function isEmptyQuoteLine(textEditor: TextEditor, line: TextLine): boolean {
+  return (
+    isMarkdownLine(textEditor, line.lineNumber) &&
+    getQuoteDepth(line.text) > 0 &&
+    isBlankLine(line.text)
+  );
+}
+
+/**
+ * Gets the list item which a line is part of, if the line is a list item or one of its
+ * continuation lines.
+ *
+ * @param textEditor The text editor
+ * @param line The line
+ * @returns The list item, or undefined if the line isn't part of one
+ */
+function getContinuedListItem(
+  textEditor: TextEditor,
+  line: TextLine
+): ParsedLine | undefined {
+  try {
+    return new ParsedLine(line, textEditor);
+  } catch (e) {
+    if (!(e instanceof NotAListItemError)) {
+      throw e;
+    }
+  }
+  if (isBlankLine(line.text) || !isMarkdownLine(textEditor, line.lineNumber)) {
+    return undefined;
+  }
+  return getEnclosingListItemBlock(textEditor, line.lineNumber)?.parsedLine;
+}
+
+/**
+ * Works out what pressing the shift and enter keys does. It will insert a line break
+ * indented to the content of the list item the cursor is on, so that the text after it
+ * becomes a continuation paragraph of the list item. Works with multiple cursors. If
+ * any cursor is not on a list item or one of its continuation lines, it will insert a
+ * new line as normal.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @returns The text edits to make, or undefined to insert a new line as normal
+ */
+export function getShiftEnterEdits(textEditor: TextEditor): TextEdit[] | undefined {
+  const parsedLines = textEditor.selections.map((selection) =>
+    getContinuedListItem(textEditor, textEditor.document.lineAt(selection.active.line))
+  );
+  if (parsedLines.some((parsedLine) => parsedLine === undefined)) {
+    return undefined;
+  }
+
+  const edit = new TextEditCollector();
+  textEditor.selections.forEach((selection, index) => {
+    const parsedLine = parsedLines[index] as ParsedLine;
+    const cursorPosition = selection.active;
+    const trailingText = textEditor.document
+      .lineAt(cursorPosition.line)
+      .text.substring(cursorPosition.character);
+    const trailingSpaces = trailingText.length - trailingText.trimStart().length;
+    edit.insert(
+      cursorPosition,
+      getLineBreak(textEditor.document) +
+        parsedLine.quotePrefix +
+        createIndentationOfWidth(textEditor, parsedLine.getContentColumn())
+    );
+    if (trailingSpaces > 0) {
+      const { line, character } = cursorPosition;
+      edit.delete(createRange(line, character, line, character + trailingSpaces));
+    }
+  });
+  return edit.textEdits;
+}
+
+/**
+ * Works out what pressing the enter key does. It will continue the
+ * list item if the cursor is on a nonempty list item or one of its continuation lines,
+ * splitting the line in two if the cursor is in the middle of its text. If the cursor is on an empty list item, it will outdent
+ * the list item. If the cursor is before the list marker, it will insert an empty line
+ * above the list item, and if it is in the marker, it is taken to be at the start of
+ * the text. A selection on one line is replaced by the line break. If the cursor is on an empty line in a blockquote, it will leave
+ * the blockquote. Otherwise, it will insert a new line as normal. Works with multiple
+ * cursors, each of which is handled on its own, so cursors on list items get the list
+ * behaviour and the others insert a new line as normal.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @returns The text edits to make, or undefined to insert a new line as normal
+ */
+export function getEnterKeyEdits(textEditor: TextEditor): TextEdit[] | undefined {
+  // Check if any cursor is on a list item line, a continuation line or an empty
+  // blockquote line and get the maximum indentation level of the list items
+  var anyCursorOnListItem = false;
+  var maxLevel = 0;
+  for (const selection of textEditor.selections) {
+    const line = textEditor.document.lineAt(selection.start.line);
+    if (isEmptyQuoteLine(textEditor, line)) {
+      anyCursorOnListItem = true;
+      continue;
+    }
+    const parsedLine = getContinuedListItem(textEditor, line);
+    if (parsedLine === undefined) {
+      continue;
+    }
+    anyCursorOnListItem = true;
+    if (parsedLine.level > maxLevel) {
+      maxLevel = parsedLine.level;
+    }
+  }
+
+  // No cursor is on a list item, so just insert a new line as normal
+  if (!anyCursorOnListItem) {
+    return undefined;
+  }
+
+  // Get the list markers for each level of indentation we might need
+  const markerLevels = getMarkerLevels(textEditor, maxLevel - 1);
+
+  const lineBreak = getLineBreak(textEditor.document);
+  const edit = new TextEditCollector();
+  const listEdit = new ListEdit(textEditor);
+  for (const selection of textEditor.selections) {
+    const line = textEditor.document.lineAt(selection.start.line);
+    if (isEmptyQuoteLine(textEditor, line)) {
+      // Leave the innermost blockquote
+      edit.replace(getLineRange(line), removeInnermostQuote(getQuotePrefix(line.text)));
+      continue;
+    }
+    const parsedLine =
+      selection.start.line === selection.end.line
+        ? getContinuedListItem(textEditor, line)
+        : undefined;
+    const contentStart =
+      getQuotePrefix(line.text).length + getIndentation(line.text).length;
+    if (
+      parsedLine === undefined ||
+      (!selection.isEmpty && selection.start.character <= contentStart)
+    ) {
+      // Other cursors replace the selection with a new line as normal, keeping the
+      // indentation
+      const indentation = line.text.substring(
+        0,
+        line.text.length - line.text.trimStart().length
+      );
+      edit.replace(
+        selection,
+        lineBreak + indentation.substring(0, selection.start.character)
+      );
+      continue;
+    }
+
+    // A cursor in the marker or the checkbox is taken to be at the start of the text,
+    // so that the marker is never split
+    var start = selection.start;
+    var end = selection.end;
+    const headLength = parsedLine.getHead().length;
+    if (
+      parsedLine.line.lineNumber === line.lineNumber &&
+      start.character > contentStart &&
+      start.character < headLength
+    ) {
+      start = createPosition(line.lineNumber, headLength);
+      end = comparePositions(end, start) < 0 ? start : end;
+    }
+
+    if (start.character <= contentStart) {
+      // If the cursor is before the list marker or the start of the continuation line,
+      // leave the line as it is
+      edit.insert(
+        createPosition(line.lineNumber, 0),
+        getQuotePrefix(line.text).trimEnd() + lineBreak
+      );
+    } else if (
+      parsedLine.line.lineNumber === line.lineNumber &&
+      parsedLine.remainder === ""
+    ) {
+      // If the line consists of just a list marker, either outdent or remove it
+      if (
+        getSetting("blankListItemBehaviour", textEditor.document) === "Remove List Item"
+      ) {
+        listEdit.removeLine(parsedLine);
+      } else {
+        outdentListItem(textEditor, listEdit, markerLevels, parsedLine);
+      }
+    } else {
+      // Otherwise insert a new line with the current list marker style in place of the
+      // selection, taking the text after it with it. On a continuation line, this is
+      // the next sibling of the list item the line belongs to.
+      const newParsedLine = EditedParsedLine.fromParsedLine(parsedLine);
+      if (newParsedLine.markerIsTask) {
+        newParsedLine.setTaskChecked(false);
+      }
+      if (newParsedLine.markerIsNumber) {
+        const newNumber = determineMarkerNumber(
+          textEditor,
+          line.lineNumber + 1,
+          parsedLine.level,
+          parsedLine.quoteDepth
+        );
+        newParsedLine.setMarkerNumber(newNumber);
+      }
+      listEdit.insertLine(start, newParsedLine, end);
+    }
+  }
+  listEdit.apply(edit);
+  return edit.textEdits;
+}
+
+/**
+ * The lines covered by the selections, split into the list items and the other lines.
+ *
+ * @property parsedLines The list items
+ * @property otherLines The lines which aren't list items, not including the ones nested
+ * under the list items, which move along with them
+ * @property maxLevel The maximum indentation level of the list items and the list items
+ * nested under them
+ */
+interface SelectedLines {
+  parsedLines: ParsedLine[];
+  otherLines: TextLine[];
+  maxLevel: number;
+}
+
+/**
+ * Gets the lines covered by the selections, each line once, so that list items can be
+ * indented and outdented in the list item way and other lines as normal.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @returns The selected lines
+ */
+function getSelectedLines(textEditor: TextEditor): SelectedLines {
+  const lineNumbers = new Set<number>();
+  for (const selection of textEditor.selections) {
+    for (let i = selection.start.line; i <= selection.end.line; i++) {
+      lineNumbers.add(i);
+    }
+  }
+
+  const selectedLines: SelectedLines = { parsedLines: [], otherLines: [], maxLevel: 0 };
+  const nestedLineNumbers = new Set<number>();
+  for (const lineNumber of Array.from(lineNumbers).sort((a, b) => a - b)) {
+    const line = textEditor.document.lineAt(lineNumber);
+    var parsedLine;
+    try {
+      parsedLine = new ParsedLine(line, textEditor);
+    } catch (e) {
+      if (e instanceof NotAListItemError) {
+        selectedLines.otherLines.push(line);
+        continue;
+      }
+      throw e;
+    }
+    selectedLines.parsedLines.push(parsedLine);
+    // The lines nested under the list item are moved too, so we need markers for their
+    // levels as well
+    const descendants = getListItemDescendants(textEditor, parsedLine);
+    for (const listItem of [parsedLine, ...descendants.listItems]) {
+      if (listItem.level > selectedLines.maxLevel) {
+        selectedLines.maxLevel = listItem.level;
+      }
+    }
+    for (const continuationLine of descendants.continuationLines) {
+      nestedLineNumbers.add(continuationLine.lineNumber);
+    }
+  }
+  selectedLines.otherLines = selectedLines.otherLines.filter(
+    (line) => !nestedLineNumbers.has(line.lineNumber)
+  );
+  return selectedLines;
+}
+
+/**
+ * Works out what outdenting the selection does. It changes all list item markers
+ * in the selections to the previous marker level, moving the lines nested under each
+ * list item along with it. Each line is handled on its own: the selected lines which
+ * aren't list items are outdented as normal, by up to one tab. If there are no list
+ * items in the selections, the selection is outdented as normal.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @returns The text edits to make, or undefined to outdent as normal
+ */
+export function getOutdentEdits(textEditor: TextEditor): TextEdit[] | undefined {
+  const { parsedLines, otherLines, maxLevel } = getSelectedLines(textEditor);
+  if (parsedLines.length === 0) {
+    return undefined;
+  }
+
+  // Get the list markers for each level of indentation we might need
+  const markerLevels = getMarkerLevels(textEditor, maxLevel - 1);
+
+  const edit = new TextEditCollector();
+  const listEdit = new ListEdit(textEditor);
+  for (const parsedLine of parsedLines) {
+    outdentListItem(textEditor, listEdit, markerLevels, parsedLine);
+  }
+  const tabSize = textEditor.options.tabSize as number;
+  for (const line of otherLines) {
+    // Remove a tab, or up to a tab's worth of spaces, from the start of the line
+    const removedWhitespace = line.text.startsWith("\t")
+      ? "\t"
+      : /^ */.exec(line.text)![0].substring(0, tabSize);
+    if (removedWhitespace.length > 0) {
+      edit.delete(
+        createRange(line.lineNumber, 0, line.lineNumber, removedWhitespace.length)
+      );
+    }
+  }
+  listEdit.apply(edit);
+  return edit.textEdits;
+}
+
+/**
+ * Works out what indenting the selection does. It changes all list item markers
+ * in the selections to the next marker level, moving the lines nested under each list
+ * item along with it. The first item of each list is left where it is, since it has no
+ * list item above it to be nested under. Each line is handled on its own: the selected
+ * lines which aren't list items are indented as normal, by one tab. If there are no
+ * list items in the selections, the selection is indented as normal.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @returns The text edits to make, or undefined to indent as normal
+ */
+export function getIndentEdits(textEditor: TextEditor): TextEdit[] | undefined {
+  const { parsedLines, otherLines, maxLevel } = getSelectedLines(textEditor);
+  if (parsedLines.length === 0) {
+    return undefined;
+  }
+
+  // Get the list markers for each level of indentation we might need
+  const markerLevels = getMarkerLevels(textEditor, maxLevel + 1);
+
+  const edit = new TextEditCollector();
+  const listEdit = new ListEdit(textEditor);
+  for (const parsedLine of parsedLines) {
+    if (getPreviousSibling(textEditor, parsedLine) !== undefined) {
+      indentListItem(textEditor, listEdit, markerLevels, parsedLine);
+    }
+  }
+  const tab = textEditor.options.insertSpaces
+    ? " ".repeat(textEditor.options.tabSize as number)
+    : "\t";
+  for (const line of otherLines) {
+    // Empty lines are left empty, as the default indent command does
+    if (line.text.length > 0) {
+      edit.insert(createPosition(line.lineNumber, 0), tab);
+    }
+  }
+  listEdit.apply(edit);
+  return edit.textEdits;
+}
+
+/**
+ * Checks whether `Tab` and `Shift+Tab` should indent and outdent list items, rather than
+ * doing what they normally do. This is the case when every cursor is on a list item, in
+ * its marker or right after it, and every non-empty selection covers only list items.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @returns Whether the selections are on list items
+ */
+function selectionsOnListItems(textEditor: TextEditor): boolean {
+  for (const selection of textEditor.selections) {
+    for (let i = selection.start.line; i <= selection.end.line; i++) {
+      var parsedLine;
+      try {
+        parsedLine = new ParsedLine(textEditor.document.lineAt(i), textEditor);
+      } catch (e) {
+        if (e instanceof NotAListItemError) {
+          return false;
+        }
+        throw e;
+      }
+      if (
+        selection.isEmpty &&
+        selection.active.character > parsedLine.getHead().length
+      ) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * Works out what pressing `Tab` on a list item does. It indents the list items if the
+ * cursors are in or right after their markers, or the selections cover list items.
+ * Otherwise, `Tab` does what it normally does.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @returns The text edits to make, or undefined for the default tab behaviour
+ */
+export function getTabEdits(textEditor: TextEditor): TextEdit[] | undefined {
+  if (!selectionsOnListItems(textEditor)) {
+    return undefined;
+  }
+  return getIndentEdits(textEditor);
+}
+
+/**
+ * Works out what pressing `Shift+Tab` on a list item does. It outdents the list items
+ * if the cursors are in or right after their markers, or the selections cover list
+ * items. Otherwise, `Shift+Tab` does what it normally does.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @returns The text edits to make, or undefined for the default outdent behaviour
+ */
+export function getShiftTabEdits(textEditor: TextEditor): TextEdit[] | undefined {
+  if (!selectionsOnListItems(textEditor)) {
+    return undefined;
+  }
+  return getOutdentEdits(textEditor);
+}
+
+/**
+ * Works out what pressing `Backspace` on a list item does. If every
+ * cursor is right after the marker of a list item, with nothing selected, it does what
+ * the `backspaceBehaviour` setting asks for: it either outdents the list item one level
+ * (turning it into a continuation line of the list item before it once it is at the
+ * first level), turns it into a continuation line straight away, or removes its marker.
+ * Ordered lists are renumbered to close the gap. Otherwise, it deletes to the left as
+ * normal.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @returns The text edits to make, or undefined to delete to the left as normal
+ */
+export function getBackspaceEdits(textEditor: TextEditor): TextEdit[] | undefined {
+  // Check if every cursor is right after a list marker and get the maximum indentation
+  // level of the list items
+  var maxLevel = 0;
+  var parsedLines: ParsedLine[] = [];
+  for (const selection of textEditor.selections) {
+    var parsedLine;
+    try {
+      parsedLine = new ParsedLine(
+        textEditor.document.lineAt(selection.active.line),
+        textEditor
+      );
+    } catch (e) {
+      if (e instanceof NotAListItemError) {
+        return undefined;
+      }
+      throw e;
+    }
+    if (
+      !selection.isEmpty ||
+      selection.active.character !== parsedLine.getHead().length
+    ) {
+      return undefined;
+    }
+    parsedLines.push(parsedLine);
+    const descendants = getListItemDescendants(textEditor, parsedLine);
+    for (const listItem of [parsedLine, ...descendants.listItems]) {
+      if (listItem.level > maxLevel) {
+        maxLevel = listItem.level;
+      }
+    }
+  }
+
+  // Get the list markers for each level of indentation we might need
+  const markerLevels = getMarkerLevels(textEditor, maxLevel - 1);
+
+  const behaviour = getSetting("backspaceBehaviour", textEditor.document);
+  const listEdit = new ListEdit(textEditor);
+  const lineNumbers = new Set<number>();
+  for (const parsedLine of parsedLines) {
+    // Cursors on the same line only change it once
+    if (lineNumbers.has(parsedLine.line.lineNumber)) {
+      continue;
+    }
+    lineNumbers.add(parsedLine.line.lineNumber);
+
+    if (behaviour === "Remove Marker") {
+      listEdit.removeMarker(parsedLine, parsedLine.initialSpacing);
+    } else if (behaviour === "Outdent" && parsedLine.level > 0) {
+      outdentListItem(textEditor, listEdit, markerLevels, parsedLine);
+    } else {
+      // Leave the text where it is, so it carries on the list item before it
+      listEdit.removeMarker(
+        parsedLine,
+        createIndentationOfWidth(textEditor, parsedLine.getContentColumn())
+      );
+    }
+  }
+  return listEdit.getTextEdits();
+}
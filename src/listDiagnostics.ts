@@ -0,0 +1,488 @@
+import { isMarkdownLine } from "./blockContext";
+import {
+  getIndentation,
+  getIndentationWidth,
+  getQuoteDepth,
+  getQuotePrefix,
+  isBlankLine,
+} from "./blockquote";
+import { ListEdit } from "./listEdit";
+import { getListIndex } from "./listIndex";
+import {
+  ParsedLine,
+  createIndentationOfWidth,
+  isNumberingFixed,
+  usesContentColumns,
+} from "./listItem";
+import { getSetting } from "./listSettings";
+import { NumberingStyle, formatMarkerNumber } from "./numbering";
+import {
+  Range,
+  TextEdit,
+  TextEditor,
+  TextLine,
+  comparePositions,
+  createRange,
+} from "./textDocument";
+
+/**
+ * The kinds of problem found in lists. Each one can be turned off with its own setting.
+ */
+export type ListLintRule =
+  | "mixedMarkers"
+  | "numbering"
+  | "indentation"
+  | "mixedIndentation"
+  | "checkboxSyntax";
+
+/**
+ * The setting which turns each rule on or off, and the title of the code action which
+ * fixes every problem of that kind.
+ */
+const lintRules: Record<ListLintRule, { setting: string; fixAllTitle: string }> = {
+  mixedMarkers: {
+    setting: "lintMixedMarkers",
+    fixAllTitle: "Fix all mixed list markers in the file",
+  },
+  numbering: {
+    setting: "lintNumbering",
+    fixAllTitle: "Renumber all ordered lists with gaps or duplicates in the file",
+  },
+  indentation: {
+    setting: "lintIndentation",
+    fixAllTitle: "Fix the indentation of all list items in the file",
+  },
+  mixedIndentation: {
+    setting: "lintMixedIndentation",
+    fixAllTitle: "Fix all list indentation mixing tabs and spaces in the file",
+  },
+  checkboxSyntax: {
+    setting: "lintCheckboxSyntax",
+    fixAllTitle: "Fix all task list checkboxes in the file",
+  },
+};
+
+/**
+ * A problem found in a list, along with how to fix it.
+ *
+ * @property rule The kind of problem
+ * @property range The part of the document with the problem
+ * @property message The message describing the problem
+ * @property fixTitle The title of the quick fix
+ * @property fix Adds the fix to a list edit
+ */
+export interface ListProblem {
+  rule: ListLintRule;
+  range: Range;
+  message: string;
+  fixTitle: string;
+  fix: (listEdit: ListEdit) => void;
+}
+
+/**
+ * A list item which is open while looking for problems, so that the list items after
+ * it can be grouped with their siblings.
+ *
+ * @property level The level of the list item
+ * @property lineNumber The line number of the list item
+ * @property contentColumn The column the content of the list item starts at
+ */
+interface OpenItem {
+  level: number;
+  lineNumber: number;
+  contentColumn: number;
+}
+
+/**
+ * Gets the range of a list item's marker.
+ *
+ * @param parsedLine The list item
+ * @returns The range of the marker
+ */
+function getMarkerRange(parsedLine: ParsedLine): Range {
+  const start = parsedLine.quotePrefix.length + parsedLine.initialSpacing.length;
+  return createRange(
+    parsedLine.line.lineNumber,
+    start,
+    parsedLine.line.lineNumber,
+    start + parsedLine.marker.length
+  );
+}
+
+/**
+ * Gets the range of a line's indentation, after any blockquote markers.
+ *
+ * @param line The line
+ * @returns The range of the indentation
+ */
+function getIndentationRange(line: TextLine): Range {
+  const start = getQuotePrefix(line.text).length;
+  return createRange(
+    line.lineNumber,
+    start,
+    line.lineNumber,
+    start + getIndentation(line.text).length
+  );
+}
+
+/**
+ * Checks the markers of a group of sibling list items. Bullets which differ from the one
+ * used most among the siblings are mixed markers, and numbers which don't carry on from
+ * the item before are gaps or duplicates.
+ *
+ * @param siblings The sibling list items, in order
+ * @param problems The problems found so far, which are added to
+ */
+function checkSiblings(siblings: ParsedLine[], problems: ListProblem[]): void {
+  // Count how often each bullet is used. Maps keep the order the bullets are first seen
+  // in, so ties go to the first one.
+  const bulletCounts = new Map<string, number>();
+  for (const sibling of siblings) {
+    if (/^[-*+]/.test(sibling.marker)) {
+      const bullet = sibling.marker[0];
+      bulletCounts.set(bullet, (bulletCounts.get(bullet) ?? 0) + 1);
+    }
+  }
+  if (bulletCounts.size > 1) {
+    const bullet = [...bulletCounts.entries()].reduce((best, entry) =>
+      entry[1] > best[1] ? entry : best
+    )[0];
+    for (const sibling of siblings) {
+      if (!/^[-*+]/.test(sibling.marker) || sibling.marker[0] === bullet) {
+        continue;
+      }
+      problems.push({
+        rule: "mixedMarkers",
+        range: getMarkerRange(sibling),
+        message: `List item uses \`${sibling.marker[0]}\` but the other items at this level use \`${bullet}\``,
+        fixTitle: `Change the bullet to \`${bullet}\``,
+        fix: (listEdit) => {
+          const editedParsedLine = listEdit.editLine(sibling);
+          editedParsedLine.setMarker(bullet + editedParsedLine.marker.substring(1));
+        },
+      });
+    }
+  }
+
+  // Each run of numbered items with the same delimiter and numbering style is a list
+  var run: ParsedLine[] = [];
+  for (const sibling of [...siblings, undefined]) {
+    const previous = run[run.length - 1];
+    if (
+      sibling !== undefined &&
+      sibling.markerIsNumber &&
+      (previous === undefined ||
+        (sibling.markerDelimiter === previous.markerDelimiter &&
+          sibling.markerNumberingStyle === previous.markerNumberingStyle))
+    ) {
+      run.push(sibling);
+      continue;
+    }
+    checkNumbering(run, problems);
+    run = sibling !== undefined && sibling.markerIsNumber ? [sibling] : [];
+  }
+}
+
+/**
+ * Checks that the numbers of an ordered list carry on from one item to the next, or
+ * stay the same if the list gives every item the same number.
+ *
+ * @param items The items of the ordered list, in order
+ * @param problems The problems found so far, which are added to
+ */
+function checkNumbering(items: ParsedLine[], problems: ListProblem[]): void {
+  if (items.length < 2) {
+    return;
+  }
+  const fixed = isNumberingFixed(
+    items[0].textEditor.document,
+    items[0].markerNumber,
+    items[1].markerNumber
+  );
+  for (let i = 1; i < items.length; i++) {
+    const item = items[i];
+    const previousNumber = items[i - 1].markerNumber as number;
+    const expectedNumber = fixed ? previousNumber : previousNumber + 1;
+    if (item.markerNumber === expectedNumber) {
+      continue;
+    }
+    const expectedMarker =
+      formatMarkerNumber(expectedNumber, item.markerNumberingStyle as NumberingStyle) +
+      item.markerDelimiter;
+    problems.push({
+      rule: "numbering",
+      range: getMarkerRange(item),
+      message:
+        item.markerNumber === previousNumber
+          ? `List item has the same number as the item before, expected \`${expectedMarker}\``
+          : `List item number doesn't follow on from the item before, expected \`${expectedMarker}\``,
+      fixTitle: "Renumber the list",
+      fix: (listEdit) => {
+        listEdit.editLine(item).setMarkerNumber(expectedNumber);
+      },
+    });
+  }
+}
+
+/**
+ * Checks that a list item is indented by a whole number of levels. When indentation
+ * follows content columns, a level is the column the content of the parent item starts
+ * at. Otherwise it is the tab size, but list items lined up with the content of an item
+ * above them are fine too, since that is how CommonMark nests them.
+ *
+ * @param textEditor The text editor
+ * @param parsedLine The list item
+ * @param parent The list item it is nested under, if there is one
+ * @param openItems The list items above it which are still open, and which it could
+ * be nested under
+ * @param problems The problems found so far, which are added to
+ */
+function checkIndentation(
+  textEditor: TextEditor,
+  parsedLine: ParsedLine,
+  parent: OpenItem | undefined,
+  openItems: OpenItem[],
+  problems: ListProblem[]
+): void {
+  const range = getIndentationRange(parsedLine.line);
+  if (usesContentColumns(textEditor.document)) {
+    const expectedIndentation = parent !== undefined ? parent.contentColumn : 0;
+    if (parsedLine.initialSpacingAsSpaces.length === expectedIndentation) {
+      return;
+    }
+    problems.push({
+      rule: "indentation",
+      range: range,
+      message:
+        parent !== undefined
+          ? "List item isn't lined up with the content of the item it is nested under"
+          : "List item is indented but isn't nested under another list item",
+      fixTitle: `Indent the list item by ${expectedIndentation} columns`,
+      fix: (listEdit) => {
+        listEdit
+          .editLine(parsedLine)
+          .setIndentation(createIndentationOfWidth(textEditor, expectedIndentation));
+      },
+    });
+  } else if (
+    parsedLine.markerInitialSpaces.length > 0 &&
+    !openItems.some(
+      (item) => item.contentColumn === parsedLine.initialSpacingAsSpaces.length
+    )
+  ) {
+    const tabSize = textEditor.options.tabSize as number;
+    problems.push({
+      rule: "indentation",
+      range: range,
+      message: `List item indentation isn't a multiple of the tab size (${tabSize}) or lined up with the content of an item above`,
+      fixTitle: `Indent the list item to level ${parsedLine.level}`,
+      fix: (listEdit) => {
+        listEdit.editLine(parsedLine).removeMarkerInitialSpaces();
+      },
+    });
+  }
+}
+
+/**
+ * Checks that the indentation of a line in a list doesn't mix tabs and spaces, other
+ * than the spaces left over after the tabs when indenting with tabs.
+ *
+ * @param textEditor The text editor
+ * @param line The line
+ * @param parsedLine The list item on the line, if there is one
+ * @param problems The problems found so far, which are added to
+ */
+function checkMixedIndentation(
+  textEditor: TextEditor,
+  line: TextLine,
+  parsedLine: ParsedLine | undefined,
+  problems: ListProblem[]
+): void {
+  const tabSize = textEditor.options.tabSize as number;
+  const indentation = getIndentation(line.text);
+  const width = getIndentationWidth(line.text, tabSize);
+  if (
+    !/\t/.test(indentation) ||
+    !/ /.test(indentation) ||
+    indentation === createIndentationOfWidth(textEditor, width)
+  ) {
+    return;
+  }
+  problems.push({
+    rule: "mixedIndentation",
+    range: getIndentationRange(line),
+    message: "Indentation mixes tabs and spaces",
+    fixTitle: textEditor.options.insertSpaces
+      ? "Indent with spaces"
+      : "Indent with tabs",
+    fix: (listEdit) => {
+      if (parsedLine === undefined) {
+        listEdit.reindentLine(line, createIndentationOfWidth(textEditor, width));
+        return;
+      }
+      const editedParsedLine = listEdit.editLine(parsedLine);
+      editedParsedLine.setIndentation(
+        createIndentationOfWidth(
+          textEditor,
+          editedParsedLine.initialSpacingAsSpaces.length -
+            editedParsedLine.markerInitialSpaces.length
+        )
+      );
+    },
+  });
+}
+
+/**
+ * Checks for task list checkboxes which aren't quite right, like `[X ]` or `[]`, and
+ * so aren't recognised as checkboxes.
+ *
+ * @param parsedLine The list item
+ * @param problems The problems found so far, which are added to
+ */
+function checkCheckboxSyntax(parsedLine: ParsedLine, problems: ListProblem[]): void {
+  if (parsedLine.markerIsTask || !/^[-*+]$/.test(parsedLine.marker)) {
+    return;
+  }
+  const checkboxMatch = /^\[\s*([xX]?)\s*\](?=\s|$)/.exec(parsedLine.remainder);
+  if (checkboxMatch === null || /^\[[ xX]\]$/.test(checkboxMatch[0])) {
+    return;
+  }
+  const checkbox = checkboxMatch[1] !== "" ? "[x]" : "[ ]";
+  const start = parsedLine.getHead().length;
+  const range = createRange(
+    parsedLine.line.lineNumber,
+    start,
+    parsedLine.line.lineNumber,
+    start + checkboxMatch[0].length
+  );
+  problems.push({
+    rule: "checkboxSyntax",
+    range: range,
+    message: `\`${checkboxMatch[0]}\` isn't a task list checkbox, which must be \`[ ]\` or \`[x]\``,
+    fixTitle: `Change the checkbox to \`${checkbox}\``,
+    fix: (listEdit) => {
+      const editedParsedLine = listEdit.editLine(parsedLine);
+      editedParsedLine.setMarker(`${editedParsedLine.marker} ${checkbox}`);
+      editedParsedLine.setRemainder(
+        editedParsedLine.remainder.substring(checkboxMatch[0].length).trimStart()
+      );
+    },
+  });
+}
+
+/**
+ * Finds the problems in the lists of a document, for the rules the user has turned on.
+ * List items are grouped with their siblings, which are the items at the same level
+ * nested under the same item in the same list. Lists end at paragraphs which aren't
+ * indented and when going into or out of a blockquote.
+ *
+ * @param textEditor The text editor
+ * @returns The problems found
+ */
+export function findListProblems(textEditor: TextEditor): ListProblem[] {
+  const document = textEditor.document;
+  const tabSize = textEditor.options.tabSize as number;
+  const listIndex = getListIndex(textEditor);
+  const problems: ListProblem[] = [];
+  const siblingGroups = new Map<string, ParsedLine[]>();
+  var openItems: OpenItem[] = [];
+  var listNumber = 0;
+  var quoteDepth = 0;
+
+  for (let lineNumber = 0; lineNumber < document.lineCount; lineNumber++) {
+    const line = document.lineAt(lineNumber);
+    if (isBlankLine(line.text) || !isMarkdownLine(textEditor, lineNumber)) {
+      continue;
+    }
+    if (getQuoteDepth(line.text) !== quoteDepth) {
+      openItems = [];
+      listNumber++;
+      quoteDepth = getQuoteDepth(line.text);
+    }
+
+    const parsedLine = listIndex.getParsedLine(lineNumber);
+    if (parsedLine === undefined) {
+      // Paragraphs end the list items they aren't indented enough to be part of, and
+      // the whole list if they aren't indented at all
+      const indentation = getIndentationWidth(line.text, tabSize);
+      if (indentation === 0) {
+        openItems = [];
+        listNumber++;
+        continue;
+      }
+      while (
+        openItems.length > 0 &&
+        openItems[openItems.length - 1].contentColumn > indentation
+      ) {
+        openItems.pop();
+      }
+      if (openItems.length > 0) {
+        checkMixedIndentation(textEditor, line, undefined, problems);
+      }
+      continue;
+    }
+
+    const enclosingItems = openItems.slice();
+    while (
+      openItems.length > 0 &&
+      openItems[openItems.length - 1].level >= parsedLine.level
+    ) {
+      openItems.pop();
+    }
+    const parent = openItems[openItems.length - 1];
+    const groupKey = `${listNumber}:${parent?.lineNumber}:${parsedLine.level}`;
+    const siblings = siblingGroups.get(groupKey);
+    if (siblings === undefined) {
+      siblingGroups.set(groupKey, [parsedLine]);
+    } else {
+      siblings.push(parsedLine);
+    }
+
+    checkIndentation(textEditor, parsedLine, parent, enclosingItems, problems);
+    checkMixedIndentation(textEditor, line, parsedLine, problems);
+    checkCheckboxSyntax(parsedLine, problems);
+    openItems.push({
+      level: parsedLine.level,
+      lineNumber: lineNumber,
+      contentColumn: parsedLine.getContentColumn(),
+    });
+  }
+
+  for (const siblings of siblingGroups.values()) {
+    checkSiblings(siblings, problems);
+  }
+
+  return problems
+    .filter((problem) =>
+      getSetting(lintRules[problem.rule].setting, textEditor.document)
+    )
+    .sort((a, b) => comparePositions(a.range.start, b.range.start));
+}
+
+/**
+ * Gets the title of the quick fix which fixes every problem of a kind in a document.
+ *
+ * @param rule The kind of problem
+ * @returns The title of the quick fix
+ */
+export function getFixAllTitle(rule: ListLintRule): string {
+  return lintRules[rule].fixAllTitle;
+}
+
+/**
+ * Works out the text edits which fix some problems in a document in one go.
+ *
+ * @param textEditor The text editor
+ * @param problems The problems to fix
+ * @returns The text edits
+ */
+export function getListProblemFixEdits(
+  textEditor: TextEditor,
+  problems: ListProblem[]
+): TextEdit[] {
+  const listEdit = new ListEdit(textEditor);
+  for (const problem of problems) {
+    problem.fix(listEdit);
+  }
+  return listEdit.getTextEdits();
+}
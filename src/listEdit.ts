@@ -0,0 +1,899 @@
+import {
+  getIndentation,
+  getIndentationWidth,
+  getQuoteDepth,
+  getQuotePrefix,
+  isBlankLine,
+} from "./blockquote";
+import { getListIndex } from "./listIndex";
+import {
+  EditedParsedLine,
+  ParsedLine,
+  createIndentationOfWidth,
+  isNumberingFixed,
+  usesContentColumns,
+} from "./listItem";
+import { getSetting } from "./listSettings";
+import { NumberingStyle } from "./numbering";
+import {
+  Position,
+  TextDocument,
+  TextEdit,
+  TextEditBuilder,
+  TextEditCollector,
+  TextEditor,
+  TextLine,
+  createRange,
+  getLineBreak,
+  getLineRange,
+} from "./textDocument";
+
+/**
+ * A line of the document as it will be once a `ListEdit` has been applied.
+ *
+ * @property parsedLine The list item on the line, if there is one
+ * @property text The text of the line, used when the line is not a list item
+ * @property removedItem A list item which was at this point in the document but which
+ * the edit removes or moves to another level
+ * @property changed Whether the edit changes this line
+ * @property lineNumber The line number of the line in the original document, or
+ * undefined if the edit inserts it or turns it into a list item
+ */
+interface PendingLine {
+  parsedLine?: ParsedLine;
+  text?: string;
+  removedItem?: ParsedLine;
+  changed: boolean;
+  lineNumber?: number;
+}
+
+/**
+ * An ordered (or unordered) list which is open at some indentation level while
+ * renumbering.
+ *
+ * @property markerDelimiter The delimiter of the list's markers, or undefined if the
+ * list is unordered
+ * @property numberingStyle The numbering style of the list's markers, or undefined if
+ * the list is unordered
+ * @property fixed Whether every item in the list has the same number
+ * @property firstNumber The number of the first item in the list
+ * @property previousNumber The number of the most recent item in the list
+ * @property contentColumn The column the content of the most recent item in the list
+ * starts at
+ * @property renumber Whether the items from here on should be renumbered
+ */
+interface OpenList {
+  markerDelimiter?: string;
+  numberingStyle?: NumberingStyle;
+  fixed: boolean;
+  firstNumber: number;
+  previousNumber: number;
+  contentColumn: number;
+  renumber: boolean;
+}
+
+/**
+ * Gets the number a list item on a pending line had before the edit, if it was already
+ * at the same level. Inserted list items and ones moved from another level have no
+ * original number.
+ *
+ * @param pendingLine The pending line, which should be a list item
+ * @returns The original number, or undefined if there isn't one
+ */
+function getOriginalNumber(pendingLine: PendingLine): number | undefined {
+  const parsedLine = pendingLine.parsedLine as ParsedLine;
+  const originalParsedLine =
+    parsedLine instanceof EditedParsedLine ? parsedLine.originalParsedLine : parsedLine;
+  if (
+    pendingLine.lineNumber === undefined ||
+    originalParsedLine === undefined ||
+    originalParsedLine.level !== parsedLine.level
+  ) {
+    return undefined;
+  }
+  return originalParsedLine.markerNumber;
+}
+
+/**
+ * Finds the numbers the items after a pending line in the same list had before the
+ * edit, looking through any nested items and paragraphs which belong to the list, up to
+ * the end of the blockquote the list is in. See `getOriginalNumber`.
+ *
+ * @param pendingLines The pending lines of the document
+ * @param index The index of the pending line whose list to look in
+ * @param level The level of the list
+ * @param contentColumn The column the content of the list's items starts at
+ * @param tabSize The tab size of the editor
+ * @param limit The most numbers to find
+ * @returns The original numbers of the items, in order
+ */
+function getOriginalNumbersInList(
+  pendingLines: PendingLine[],
+  index: number,
+  level: number,
+  contentColumn: number,
+  tabSize: number,
+  limit: number
+): number[] {
+  const numbers: number[] = [];
+  const quoteDepth = getPendingQuoteDepth(pendingLines[index]);
+  for (let i = index + 1; i < pendingLines.length && numbers.length < limit; i++) {
+    const pendingLine = pendingLines[i];
+    const lineQuoteDepth = getPendingQuoteDepth(pendingLine);
+    if (lineQuoteDepth !== undefined && lineQuoteDepth !== quoteDepth) {
+      break;
+    }
+    const parsedLine = pendingLine.parsedLine;
+    if (parsedLine === undefined) {
+      const text = pendingLine.text as string;
+      if (!isBlankLine(text) && getIndentationWidth(text, tabSize) < contentColumn) {
+        break;
+      }
+    } else if (parsedLine.level < level) {
+      break;
+    } else if (parsedLine.level === level) {
+      if (!parsedLine.markerIsNumber) {
+        break;
+      }
+      const originalNumber = getOriginalNumber(pendingLine);
+      if (originalNumber !== undefined) {
+        numbers.push(originalNumber);
+      }
+    }
+  }
+  return numbers;
+}
+
+/**
+ * The number of original numbers `isListFixed` needs to go by.
+ */
+const fixedNumberingSampleSize = 2;
+
+/**
+ * Determines whether every item in a list has the same number, going by the first two
+ * items in the list which were already in it before the edit.
+ *
+ * @param document The document the list is in
+ * @param firstNumber The original number of the first item in the list, if it has one
+ * @param laterNumbers The original numbers of the rest of the items, in order
+ * @returns Whether the list is fixed
+ */
+function isListFixed(
+  document: TextDocument,
+  firstNumber: number | undefined,
+  laterNumbers: number[]
+): boolean {
+  const originalNumbers =
+    firstNumber !== undefined ? [firstNumber, ...laterNumbers] : laterNumbers;
+  return isNumberingFixed(document, originalNumbers[0], originalNumbers[1]);
+}
+
+/**
+ * Checks whether a list item carries on an open list, by having the same marker
+ * delimiter and numbering style.
+ *
+ * @param openList The open list
+ * @param parsedLine The list item
+ * @returns Whether the item belongs to the list
+ */
+function isSameList(openList: OpenList, parsedLine: ParsedLine): boolean {
+  return (
+    openList.markerDelimiter === parsedLine.markerDelimiter &&
+    openList.numberingStyle === parsedLine.markerNumberingStyle
+  );
+}
+
+/**
+ * Gets the number of blockquotes a pending line is nested in.
+ *
+ * @param pendingLine The pending line
+ * @returns The number of blockquotes, or undefined if the line is blank
+ */
+function getPendingQuoteDepth(pendingLine: PendingLine): number | undefined {
+  const listItem = pendingLine.parsedLine ?? pendingLine.removedItem;
+  if (listItem !== undefined) {
+    return listItem.quoteDepth;
+  }
+  const text = pendingLine.text as string;
+  return isBlankLine(text) ? undefined : getQuoteDepth(text);
+}
+
+/**
+ * Collects the changes a command makes to list items, so that the rest of the document
+ * can be brought into line with them before anything is written to the text editor.
+ * Once all the changes have been made, `apply` renumbers the ordered lists affected by
+ * them and writes everything using a single edit, so that it can be undone in one go.
+ */
+export class ListEdit {
+  textEditor: TextEditor;
+  protected renumberLists: boolean;
+  protected editedLines: Map<number, EditedParsedLine>;
+  protected insertedLines: Map<
+    number,
+    { position: Position; line: EditedParsedLine; replacedLength: number }[]
+  >;
+  protected removedLines: Map<number, ParsedLine>;
+  protected reindentedLines: Map<number, { line: TextLine; indentation: string }>;
+  protected unmarkedLines: Map<number, { parsedLine: ParsedLine; indentation: string }>;
+  protected markedLines: Map<number, { line: TextLine; parsedLine: EditedParsedLine }>;
+
+  /**
+   * @param textEditor The text editor to make the changes in
+   * @param renumberLists Whether to renumber the ordered lists affected by the changes
+   */
+  constructor(textEditor: TextEditor, renumberLists: boolean = true) {
+    this.textEditor = textEditor;
+    this.renumberLists = renumberLists;
+    this.editedLines = new Map();
+    this.insertedLines = new Map();
+    this.removedLines = new Map();
+    this.reindentedLines = new Map();
+    this.unmarkedLines = new Map();
+    this.markedLines = new Map();
+  }
+
+  /**
+   * Returns an EditedParsedLine for the given list item which can be modified. Any
+   * modifications will be written to the text editor when the edit is applied.
+   *
+   * @param parsedLine The list item to edit
+   * @returns The EditedParsedLine for the list item
+   */
+  public editLine(parsedLine: ParsedLine): EditedParsedLine {
+    const lineNumber = parsedLine.line.lineNumber;
+    var editedParsedLine = this.editedLines.get(lineNumber);
+    if (editedParsedLine === undefined) {
+      editedParsedLine = EditedParsedLine.fromParsedLine(parsedLine);
+      this.editedLines.set(lineNumber, editedParsedLine);
+    }
+    return editedParsedLine;
+  }
+
+  /**
+   * Inserts a new list item at the given position on an (original) line. Any text after
+   * the position is moved into the new list item, without its leading whitespace.
+   *
+   * @param position The position to insert the line break and the new list item at
+   * @param editedParsedLine The new list item
+   * @param end The end of the text on the same line which the line break replaces, such
+   * as a selection. Defaults to the position
+   */
+  public insertLine(
+    position: Position,
+    editedParsedLine: EditedParsedLine,
+    end: Position = position
+  ): void {
+    const trailingText = this.textEditor.document
+      .lineAt(position.line)
+      .text.substring(end.character);
+    const remainder = trailingText.trimStart();
+    editedParsedLine.remainder = remainder;
+    const insertions = this.insertedLines.get(position.line) ?? [];
+    insertions.push({
+      position: position,
+      line: editedParsedLine,
+      replacedLength:
+        end.character - position.character + trailingText.length - remainder.length,
+    });
+    this.insertedLines.set(position.line, insertions);
+  }
+
+  /**
+   * Removes the list item on a given line, leaving the line blank.
+   *
+   * @param parsedLine The list item to remove
+   */
+  public removeLine(parsedLine: ParsedLine): void {
+    this.editedLines.delete(parsedLine.line.lineNumber);
+    this.removedLines.set(parsedLine.line.lineNumber, parsedLine);
+  }
+
+  /**
+   * Changes the leading whitespace of a line which is not a list item, such as a
+   * continuation paragraph. Any blockquote markers at the start of the line are kept.
+   *
+   * @param line The line to change
+   * @param indentation The new leading whitespace, after the blockquote markers
+   */
+  public reindentLine(line: TextLine, indentation: string): void {
+    this.reindentedLines.set(line.lineNumber, { line: line, indentation: indentation });
+  }
+
+  /**
+   * Removes the marker of a list item, keeping the rest of its line. The list is
+   * renumbered as if the list item had been removed.
+   *
+   * @param parsedLine The list item to remove the marker of
+   * @param indentation The leading whitespace the line takes instead of the marker,
+   * after the blockquote markers
+   */
+  public removeMarker(parsedLine: ParsedLine, indentation: string): void {
+    this.editedLines.delete(parsedLine.line.lineNumber);
+    this.unmarkedLines.set(parsedLine.line.lineNumber, {
+      parsedLine: parsedLine,
+      indentation: indentation,
+    });
+  }
+
+  /**
+   * Turns a line which is not a list item into one, keeping the rest of its line. The
+   * new list item is treated like an inserted one, so it has no original number and
+   * starts off at the indentation it is given.
+   *
+   * @param line The line to add a marker to
+   * @param editedParsedLine The new list item, whose remainder is the rest of the line
+   */
+  public addMarker(line: TextLine, editedParsedLine: EditedParsedLine): void {
+    this.markedLines.set(line.lineNumber, { line: line, parsedLine: editedParsedLine });
+  }
+
+  /**
+   * Renumbers the ordered lists affected by the changes, checks or unchecks the parents
+   * of changed task list items if the user has asked for that, aligns list items with
+   * the content of their parents if indentation follows content columns, then writes
+   * all the changes to the text editor.
+   *
+   * @param edit The edit object that allows us to modify the text editor
+   */
+  public apply(edit: TextEditBuilder): void {
+    if (this.renumberLists) {
+      this.renumber();
+    }
+    if (getSetting("propagateTaskCompletion", this.textEditor.document)) {
+      this.propagateTaskCompletion();
+    }
+    if (usesContentColumns(this.textEditor.document)) {
+      this.alignToContentColumns();
+    }
+    for (const editedParsedLine of this.editedLines.values()) {
+      editedParsedLine.updateEditorHead(edit);
+    }
+    const lineBreak = getLineBreak(this.textEditor.document);
+    for (const insertions of this.insertedLines.values()) {
+      for (const insertion of insertions) {
+        edit.insert(insertion.position, lineBreak + insertion.line.getHead());
+        if (insertion.replacedLength > 0) {
+          const { line, character } = insertion.position;
+          edit.delete(
+            createRange(line, character, line, character + insertion.replacedLength)
+          );
+        }
+      }
+    }
+    for (const lineNumber of this.removedLines.keys()) {
+      edit.delete(getLineRange(this.textEditor.document.lineAt(lineNumber)));
+    }
+    for (const reindentedLine of this.reindentedLines.values()) {
+      const line = reindentedLine.line;
+      const quotePrefixLength = getQuotePrefix(line.text).length;
+      edit.replace(
+        createRange(
+          line.lineNumber,
+          quotePrefixLength,
+          line.lineNumber,
+          quotePrefixLength + getIndentation(line.text).length
+        ),
+        reindentedLine.indentation
+      );
+    }
+    for (const unmarkedLine of this.unmarkedLines.values()) {
+      const parsedLine = unmarkedLine.parsedLine;
+      edit.replace(
+        createRange(
+          parsedLine.line.lineNumber,
+          parsedLine.quotePrefix.length,
+          parsedLine.line.lineNumber,
+          parsedLine.getHead().length
+        ),
+        unmarkedLine.indentation
+      );
+    }
+    for (const markedLine of this.markedLines.values()) {
+      const line = markedLine.line;
+      edit.replace(
+        createRange(
+          line.lineNumber,
+          0,
+          line.lineNumber,
+          getQuotePrefix(line.text).length + getIndentation(line.text).length
+        ),
+        markedLine.parsedLine.getHead()
+      );
+    }
+  }
+
+  /**
+   * Works out the same changes as `apply`, but returns them as text edits rather than
+   * writing them to the text editor. This is for providers, like formatting providers,
+   * which hand their changes back to VS Code, and for working without VS Code.
+   *
+   * @returns The text edits making the changes
+   */
+  public getTextEdits(): TextEdit[] {
+    const textEditCollector = new TextEditCollector();
+    this.apply(textEditCollector);
+    return textEditCollector.textEdits;
+  }
+
+  /**
+   * Works out which lines of the document the changes can affect. These are the lists
+   * the changed lines are in (see `getListRange`), each with the lines either side of it
+   * which end it.
+   *
+   * @returns The ranges of lines, in order
+   */
+  protected getAffectedRanges(): { startLine: number; endLine: number }[] {
+    const listIndex = getListIndex(this.textEditor);
+    const lastLine = this.textEditor.document.lineCount - 1;
+    const changedLineNumbers = new Set<number>([
+      ...this.editedLines.keys(),
+      ...this.insertedLines.keys(),
+      ...this.removedLines.keys(),
+      ...this.reindentedLines.keys(),
+      ...this.unmarkedLines.keys(),
+      ...this.markedLines.keys(),
+    ]);
+    const ranges: { startLine: number; endLine: number }[] = [];
+    for (const lineNumber of Array.from(changedLineNumbers).sort((a, b) => a - b)) {
+      const previousRange = ranges[ranges.length - 1];
+      // A changed line which ends the list before it may no longer end it, so the list
+      // after it is affected too
+      if (previousRange !== undefined && lineNumber < previousRange.endLine) {
+        continue;
+      }
+      const listRange = listIndex.getListRange(lineNumber);
+      const startLine = Math.max(0, listRange.startLine - 1);
+      const endLine = Math.min(lastLine, listRange.endLine + 1);
+      if (previousRange !== undefined && startLine <= previousRange.endLine + 1) {
+        previousRange.endLine = endLine;
+      } else {
+        ranges.push({ startLine: startLine, endLine: endLine });
+      }
+    }
+    return ranges;
+  }
+
+  /**
+   * Works out what the lines of the document will be once the changes have been made,
+   * leaving out the lines the changes can't affect (see `getAffectedRanges`).
+   *
+   * @returns The lines of the document after the changes
+   */
+  protected getPendingLines(): PendingLine[] {
+    const document = this.textEditor.document;
+    const listIndex = getListIndex(this.textEditor);
+    const pendingLines: PendingLine[] = [];
+    for (const { startLine, endLine } of this.getAffectedRanges()) {
+      for (let lineNumber = startLine; lineNumber <= endLine; lineNumber++) {
+        const removedLine = this.removedLines.get(lineNumber);
+        const editedParsedLine = this.editedLines.get(lineNumber);
+        const reindentedLine = this.reindentedLines.get(lineNumber);
+        const unmarkedLine = this.unmarkedLines.get(lineNumber);
+        const markedLine = this.markedLines.get(lineNumber);
+        if (removedLine !== undefined) {
+          pendingLines.push({
+            removedItem: removedLine,
+            text: "",
+            changed: true,
+            lineNumber: lineNumber,
+          });
+        } else if (unmarkedLine !== undefined) {
+          const parsedLine = unmarkedLine.parsedLine;
+          pendingLines.push({
+            removedItem: parsedLine,
+            text:
+              parsedLine.quotePrefix + unmarkedLine.indentation + parsedLine.remainder,
+            changed: true,
+            lineNumber: lineNumber,
+          });
+        } else if (markedLine !== undefined) {
+          pendingLines.push({ parsedLine: markedLine.parsedLine, changed: true });
+        } else if (editedParsedLine !== undefined) {
+          const originalParsedLine = editedParsedLine.originalParsedLine as ParsedLine;
+          pendingLines.push({
+            parsedLine: editedParsedLine,
+            removedItem:
+              originalParsedLine.level !== editedParsedLine.level
+                ? originalParsedLine
+                : undefined,
+            changed: true,
+            lineNumber: lineNumber,
+          });
+        } else if (reindentedLine !== undefined) {
+          const text = reindentedLine.line.text;
+          const quotePrefix = getQuotePrefix(text);
+          pendingLines.push({
+            text:
+              quotePrefix +
+              reindentedLine.indentation +
+              text.substring(quotePrefix.length + getIndentation(text).length),
+            changed: true,
+            lineNumber: lineNumber,
+          });
+        } else {
+          const parsedLine = listIndex.getParsedLine(lineNumber);
+          if (parsedLine !== undefined) {
+            pendingLines.push({
+              parsedLine: parsedLine,
+              changed: false,
+              lineNumber: lineNumber,
+            });
+          } else {
+            pendingLines.push({
+              text: document.lineAt(lineNumber).text,
+              changed: false,
+              lineNumber: lineNumber,
+            });
+          }
+        }
+        for (const insertion of this.insertedLines.get(lineNumber) ?? []) {
+          pendingLines.push({ parsedLine: insertion.line, changed: true });
+        }
+      }
+    }
+    return pendingLines;
+  }
+
+  /**
+   * Renumbers every ordered list item which follows a change in the same list, so that
+   * the numbers carry on from the item before. Each list keeps its starting number, the
+   * delimiter and numbering style of its markers, and whether its numbers count up or
+   * stay the same.
+   */
+  protected renumber(): void {
+    const tabSize = this.textEditor.options.tabSize as number;
+    const pendingLines = this.getPendingLines();
+    var openLists: OpenList[] = [];
+    var quoteDepth = 0;
+
+    for (const [index, pendingLine] of pendingLines.entries()) {
+      // Going into or out of a blockquote ends every list
+      const lineQuoteDepth = getPendingQuoteDepth(pendingLine);
+      if (lineQuoteDepth !== undefined && lineQuoteDepth !== quoteDepth) {
+        openLists = [];
+        quoteDepth = lineQuoteDepth;
+      }
+
+      // A removed item leaves a gap in its list, so everything after it needs to move up
+      const removedItem = pendingLine.removedItem;
+      var sourceList: OpenList | undefined = undefined;
+      if (removedItem !== undefined && removedItem.markerIsNumber) {
+        sourceList = openLists[removedItem.level];
+        if (sourceList !== undefined && isSameList(sourceList, removedItem)) {
+          sourceList.renumber = true;
+        } else {
+          const removedNumber = removedItem.markerNumber as number;
+          const fixed = isListFixed(
+            this.textEditor.document,
+            removedNumber,
+            getOriginalNumbersInList(
+              pendingLines,
+              index,
+              removedItem.level,
+              removedItem.getContentColumn(),
+              tabSize,
+              fixedNumberingSampleSize
+            )
+          );
+          sourceList = {
+            markerDelimiter: removedItem.markerDelimiter,
+            numberingStyle: removedItem.markerNumberingStyle,
+            fixed: fixed,
+            firstNumber: removedNumber,
+            previousNumber: fixed ? removedNumber : removedNumber - 1,
+            contentColumn: removedItem.getContentColumn(),
+            renumber: true,
+          };
+          openLists[removedItem.level] = sourceList;
+        }
+      }
+
+      const parsedLine = pendingLine.parsedLine;
+      if (parsedLine === undefined) {
+        // Blank lines don't end a list, but paragraphs end the lists whose items they
+        // aren't indented enough to be part of
+        const text = pendingLine.text as string;
+        if (isBlankLine(text)) {
+          continue;
+        }
+
+        // The text left behind when a marker is removed right after another line of
+        // the list is a lazy continuation line, which carries that line on rather than
+        // ending the list
+        const previousLine = pendingLines[index - 1];
+        if (
+          removedItem !== undefined &&
+          previousLine !== undefined &&
+          (previousLine.parsedLine !== undefined ||
+            !isBlankLine(previousLine.text as string))
+        ) {
+          continue;
+        }
+
+        const indentation = getIndentationWidth(text, tabSize);
+        while (
+          openLists.length > 0 &&
+          (openLists[openLists.length - 1] === undefined ||
+            openLists[openLists.length - 1].contentColumn > indentation)
+        ) {
+          openLists.pop();
+        }
+        continue;
+      }
+
+      // A list item ends all the lists nested deeper than it. When it has moved out of
+      // one of them, the rest of that list is now nested under it, so it starts again
+      // from the number the list started at.
+      openLists = openLists.slice(0, parsedLine.level + 1);
+      if (
+        sourceList !== undefined &&
+        (removedItem as ParsedLine).level > parsedLine.level
+      ) {
+        openLists[(removedItem as ParsedLine).level] = {
+          ...sourceList,
+          previousNumber: sourceList.fixed
+            ? sourceList.firstNumber
+            : sourceList.firstNumber - 1,
+        };
+      }
+
+      const openList = openLists[parsedLine.level];
+      if (openList === undefined || !isSameList(openList, parsedLine)) {
+        const number = parsedLine.markerNumber ?? 0;
+        openLists[parsedLine.level] = {
+          markerDelimiter: parsedLine.markerDelimiter,
+          numberingStyle: parsedLine.markerNumberingStyle,
+          fixed: isListFixed(
+            this.textEditor.document,
+            getOriginalNumber(pendingLine),
+            getOriginalNumbersInList(
+              pendingLines,
+              index,
+              parsedLine.level,
+              parsedLine.getContentColumn(),
+              tabSize,
+              fixedNumberingSampleSize
+            )
+          ),
+          firstNumber: number,
+          previousNumber: number,
+          contentColumn: parsedLine.getContentColumn(),
+          renumber: pendingLine.changed,
+        };
+        continue;
+      }
+
+      if (parsedLine.markerIsNumber) {
+        const expectedNumber = openList.fixed
+          ? openList.previousNumber
+          : openList.previousNumber + 1;
+        if (
+          (openList.renumber || pendingLine.changed) &&
+          parsedLine.markerNumber !== expectedNumber
+        ) {
+          this.editPendingLine(pendingLine).setMarkerNumber(expectedNumber);
+          openList.previousNumber = expectedNumber;
+        } else {
+          openList.previousNumber = parsedLine.markerNumber as number;
+        }
+      }
+      openList.contentColumn = (
+        pendingLine.parsedLine as ParsedLine
+      ).getContentColumn();
+      openList.renumber = openList.renumber || pendingLine.changed;
+    }
+  }
+
+  /**
+   * Checks every task list item which is an ancestor of a change when all the tasks
+   * nested directly under it are checked, and unchecks it when any of them isn't. Items
+   * are updated from the deepest up, so that changes carry on up the tree.
+   */
+  protected propagateTaskCompletion(): void {
+    const tabSize = this.textEditor.options.tabSize as number;
+    const pendingLines = this.getPendingLines();
+    const children: number[][] = pendingLines.map(() => []);
+    const ancestorsOfChanges = new Set<number>();
+
+    // Work out the parent of each list item, keeping a stack of the open ancestors
+    var ancestors: number[] = [];
+    const closeAncestors = (isClosed: (ancestor: ParsedLine) => boolean) => {
+      while (
+        ancestors.length > 0 &&
+        isClosed(pendingLines[ancestors[ancestors.length - 1]].parsedLine as ParsedLine)
+      ) {
+        ancestors.pop();
+      }
+    };
+    var quoteDepth = 0;
+    for (let i = 0; i < pendingLines.length; i++) {
+      const pendingLine = pendingLines[i];
+      const lineQuoteDepth = getPendingQuoteDepth(pendingLine);
+      if (lineQuoteDepth !== undefined && lineQuoteDepth !== quoteDepth) {
+        closeAncestors(() => true);
+        quoteDepth = lineQuoteDepth;
+      }
+      const removedItem = pendingLine.removedItem;
+      if (removedItem !== undefined) {
+        for (const ancestor of ancestors) {
+          if (
+            (pendingLines[ancestor].parsedLine as ParsedLine).level < removedItem.level
+          ) {
+            ancestorsOfChanges.add(ancestor);
+          }
+        }
+      }
+
+      const parsedLine = pendingLine.parsedLine;
+      if (parsedLine === undefined) {
+        const text = pendingLine.text as string;
+        if (isBlankLine(text)) {
+          continue;
+        }
+        const indentation = getIndentationWidth(text, tabSize);
+        closeAncestors((ancestor) => ancestor.getContentColumn() > indentation);
+        continue;
+      }
+
+      closeAncestors((ancestor) => ancestor.level >= parsedLine.level);
+      if (ancestors.length > 0) {
+        children[ancestors[ancestors.length - 1]].push(i);
+      }
+      if (pendingLine.changed) {
+        ancestors.forEach((ancestor) => ancestorsOfChanges.add(ancestor));
+      }
+      ancestors.push(i);
+    }
+
+    // Children always come after their parents, so going backwards through the document
+    // updates the deepest items first
+    const sortedAncestors = Array.from(ancestorsOfChanges).sort((a, b) => b - a);
+    for (const ancestor of sortedAncestors) {
+      const parsedLine = pendingLines[ancestor].parsedLine as ParsedLine;
+      const childTasks = children[ancestor]
+        .map((child) => pendingLines[child].parsedLine as ParsedLine)
+        .filter((child) => child.markerIsTask);
+      if (!parsedLine.markerIsTask || childTasks.length === 0) {
+        continue;
+      }
+      const checked = childTasks.every((child) => child.markerIsChecked);
+      if (parsedLine.markerIsChecked !== checked) {
+        this.editPendingLine(pendingLines[ancestor]).setTaskChecked(checked);
+      }
+    }
+  }
+
+  /**
+   * Aligns the list items which change level with the content of their new parent, for
+   * when the `indentationMode` setting is `contentColumn`. Whenever the content of a
+   * list item moves (because its indentation or the width of its marker changes),
+   * everything nested under it moves by the same amount so that it stays nested.
+   */
+  protected alignToContentColumns(): void {
+    const tabSize = this.textEditor.options.tabSize as number;
+    const document = this.textEditor.document;
+
+    // The list items which are open at each point, with the column their content
+    // started at before the changes and the column it starts at after them
+    var openItems: {
+      level: number;
+      originalContentColumn: number;
+      contentColumn: number;
+    }[] = [];
+    var quoteDepth = 0;
+
+    for (const pendingLine of this.getPendingLines()) {
+      const lineQuoteDepth = getPendingQuoteDepth(pendingLine);
+      if (lineQuoteDepth !== undefined && lineQuoteDepth !== quoteDepth) {
+        openItems = [];
+        quoteDepth = lineQuoteDepth;
+      }
+      const parsedLine = pendingLine.parsedLine;
+      if (parsedLine === undefined) {
+        // Lines whose marker has been removed stay where the edit puts them
+        const text = pendingLine.text as string;
+        if (
+          isBlankLine(text) ||
+          pendingLine.lineNumber === undefined ||
+          pendingLine.removedItem !== undefined
+        ) {
+          continue;
+        }
+
+        // Move paragraphs along with the list item they belong to
+        const line = document.lineAt(pendingLine.lineNumber);
+        const originalIndentation = getIndentationWidth(line.text, tabSize);
+        while (
+          openItems.length > 0 &&
+          openItems[openItems.length - 1].originalContentColumn > originalIndentation
+        ) {
+          openItems.pop();
+        }
+        const owner = openItems[openItems.length - 1];
+        if (
+          owner !== undefined &&
+          owner.contentColumn !== owner.originalContentColumn
+        ) {
+          this.reindentLine(
+            line,
+            createIndentationOfWidth(
+              this.textEditor,
+              Math.max(
+                0,
+                originalIndentation + owner.contentColumn - owner.originalContentColumn
+              )
+            )
+          );
+        }
+        continue;
+      }
+
+      while (
+        openItems.length > 0 &&
+        openItems[openItems.length - 1].level >= parsedLine.level
+      ) {
+        openItems.pop();
+      }
+      const parent = openItems[openItems.length - 1];
+
+      // Work out where the list item was before the changes. Inserted list items start
+      // off where they were copied from.
+      var originalParsedLine = parsedLine;
+      if (
+        parsedLine instanceof EditedParsedLine &&
+        pendingLine.lineNumber !== undefined
+      ) {
+        originalParsedLine = parsedLine.originalParsedLine as ParsedLine;
+      }
+
+      if (originalParsedLine.level !== parsedLine.level) {
+        // List items which change level line up with the content of their new parent
+        this.editPendingLine(pendingLine).setIndentation(
+          createIndentationOfWidth(
+            this.textEditor,
+            parent !== undefined ? parent.contentColumn : 0
+          )
+        );
+      } else if (
+        parent !== undefined &&
+        parent.contentColumn !== parent.originalContentColumn &&
+        parsedLine.initialSpacing === originalParsedLine.initialSpacing
+      ) {
+        // List items whose parent moves move with it, unless the edit has already moved
+        // them
+        this.editPendingLine(pendingLine).setIndentation(
+          createIndentationOfWidth(
+            this.textEditor,
+            Math.max(
+              0,
+              originalParsedLine.initialSpacingAsSpaces.length +
+                parent.contentColumn -
+                parent.originalContentColumn
+            )
+          )
+        );
+      }
+
+      openItems.push({
+        level: parsedLine.level,
+        originalContentColumn: originalParsedLine.getContentColumn(),
+        contentColumn: (pendingLine.parsedLine as ParsedLine).getContentColumn(),
+      });
+    }
+  }
+
+  /**
+   * Gets an EditedParsedLine for the list item on a pending line which can be modified,
+   * and makes the pending line refer to it.
+   *
+   * @param pendingLine The pending line, which should be a list item
+   * @returns The EditedParsedLine for the list item
+   */
+  protected editPendingLine(pendingLine: PendingLine): EditedParsedLine {
+    const parsedLine = pendingLine.parsedLine as ParsedLine;
+    const editedParsedLine =
+      parsedLine instanceof EditedParsedLine ? parsedLine : this.editLine(parsedLine);
+    pendingLine.parsedLine = editedParsedLine;
+    return editedParsedLine;
+  }
+}
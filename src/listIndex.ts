@@ -0,0 +1,1011 @@
+import { BlockContext, scanBlock } from "./blockContext";
+import { getIndentationWidth, getQuoteDepth, isBlankLine } from "./blockquote";
+import {
+  NotAListItemError,
+  ParsedLine,
+  matchListItem,
+  usesContentColumns,
+} from "./listItem";
+import { TextDocument, TextDocumentChangeEvent, TextEditor } from "./textDocument";
+
+/**
+ * What the list index knows about a line of a document.
+ *
+ * @property parsedLine The list item on the line, if there is one
+ * @property isBlank Whether the line is blank, apart from any blockquote markers
+ * @property quoteDepth The number of blockquotes the line is nested in
+ * @property isMarkdown Whether the line is plain markdown content (see
+ * `LineContext`)
+ * @property isHeading Whether the line is a heading
+ * @property endsList Whether the line is an unindented paragraph, which ends any list
+ * in the same blockquote (see `getListRange`)
+ */
+interface IndexedLine {
+  parsedLine?: ParsedLine;
+  isBlank: boolean;
+  quoteDepth: number;
+  isMarkdown: boolean;
+  isHeading: boolean;
+  endsList: boolean;
+}
+
+/**
+ * The block a line of a document is in, and the level of the list item on it worked
+ * out from content columns. Parsing a line relies on these, so they are kept up to
+ * date before any lines are parsed.
+ *
+ * @property blockContext The kind of block the line is in (see `scanBlock`)
+ * @property startsBlock Whether the block starts on the line, which every line of plain
+ * markdown content does
+ * @property contentColumnLevel The level of the list item on the line (see
+ * `getContentColumnLevel`), or undefined if the line isn't a list item
+ */
+interface LineContext {
+  blockContext: BlockContext;
+  startsBlock: boolean;
+  contentColumnLevel?: number;
+}
+
+/**
+ * The line numbers of the different kinds of line in the index, sorted so that they
+ * can be searched quickly.
+ *
+ * @property listItems The list items, by their blockquote depth and level, joined with
+ * a colon
+ * @property nonBlankLines The non-blank lines, by their blockquote depth
+ * @property listEnds The lines which end lists, by their blockquote depth
+ * @property headings The headings
+ */
+interface LineNumberLookups {
+  listItems: Map<string, number[]>;
+  nonBlankLines: Map<number, number[]>;
+  listEnds: Map<number, number[]>;
+  headings: number[];
+}
+
+/**
+ * Finds where a line number would go in a sorted list of line numbers.
+ *
+ * @param lineNumbers The sorted line numbers
+ * @param lineNumber The line number to look for
+ * @returns The index of the first line number which is not before the line number
+ */
+function searchLineNumbers(lineNumbers: number[], lineNumber: number): number {
+  var low = 0;
+  var high = lineNumbers.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (lineNumbers[middle] < lineNumber) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/**
+ * Finds the nearest line number in a sorted list of line numbers going up or down from
+ * a line, not including the line itself.
+ *
+ * @param lineNumbers The sorted line numbers
+ * @param lineNumber The line number to start from
+ * @param direction -1 to look up the document and 1 to look down it
+ * @returns The nearest line number, or undefined if there isn't one
+ */
+function findNearestLineNumber(
+  lineNumbers: number[] | undefined,
+  lineNumber: number,
+  direction: -1 | 1
+): number | undefined {
+  if (lineNumbers === undefined) {
+    return undefined;
+  }
+  const index =
+    direction === -1
+      ? searchLineNumbers(lineNumbers, lineNumber) - 1
+      : searchLineNumbers(lineNumbers, lineNumber + 1);
+  return lineNumbers[index];
+}
+
+/**
+ * Finds the nearest line number going up or down from a line, not including the line
+ * itself, in any of the lists of line numbers whose keys match.
+ *
+ * @param lookup The lists of line numbers
+ * @param matches Whether to look in the list of line numbers under a key
+ * @param lineNumber The line number to start from
+ * @param direction -1 to look up the document and 1 to look down it
+ * @returns The nearest line number, or undefined if there isn't one
+ */
+function findNearestLineNumberIn<K>(
+  lookup: Map<K, number[]>,
+  matches: (key: K) => boolean,
+  lineNumber: number,
+  direction: -1 | 1
+): number | undefined {
+  var nearestLineNumber: number | undefined = undefined;
+  for (const [key, lineNumbers] of lookup) {
+    if (!matches(key)) {
+      continue;
+    }
+    const nearest = findNearestLineNumber(lineNumbers, lineNumber, direction);
+    if (
+      nearest !== undefined &&
+      (nearestLineNumber === undefined ||
+        (direction === -1 ? nearest > nearestLineNumber : nearest < nearestLineNumber))
+    ) {
+      nearestLineNumber = nearest;
+    }
+  }
+  return nearestLineNumber;
+}
+
+/**
+ * Inserts a line number into a sorted list of line numbers, keeping it sorted.
+ *
+ * @param lineNumbers The sorted line numbers
+ * @param lineNumber The line number to insert
+ */
+function insertLineNumber(lineNumbers: number[], lineNumber: number): void {
+  lineNumbers.splice(searchLineNumbers(lineNumbers, lineNumber), 0, lineNumber);
+}
+
+/**
+ * Removes a line number from a sorted list of line numbers, if it is there.
+ *
+ * @param lineNumbers The sorted line numbers
+ * @param lineNumber The line number to remove
+ */
+function removeLineNumber(lineNumbers: number[] | undefined, lineNumber: number): void {
+  if (lineNumbers === undefined) {
+    return;
+  }
+  const index = searchLineNumbers(lineNumbers, lineNumber);
+  if (lineNumbers[index] === lineNumber) {
+    lineNumbers.splice(index, 1);
+  }
+}
+
+/**
+ * Adds a line number to the list of line numbers under a key, keeping it sorted.
+ *
+ * @param lookup The lists of line numbers
+ * @param key The key of the list to add to
+ * @param lineNumber The line number to add
+ */
+function addLineNumber<K>(lookup: Map<K, number[]>, key: K, lineNumber: number): void {
+  const lineNumbers = lookup.get(key);
+  if (lineNumbers === undefined) {
+    lookup.set(key, [lineNumber]);
+  } else {
+    insertLineNumber(lineNumbers, lineNumber);
+  }
+}
+
+/**
+ * Moves the line numbers in a sorted list when lines are replaced. The line numbers of
+ * the replaced lines are removed and the ones after them are shifted.
+ *
+ * @param lineNumbers The sorted line numbers
+ * @param startLine The first replaced line
+ * @param endLine The last replaced line
+ * @param lineDelta The number of lines added, or minus the number removed
+ */
+function shiftLineNumbers(
+  lineNumbers: number[],
+  startLine: number,
+  endLine: number,
+  lineDelta: number
+): void {
+  const start = searchLineNumbers(lineNumbers, startLine);
+  lineNumbers.splice(start, searchLineNumbers(lineNumbers, endLine + 1) - start);
+  if (lineDelta !== 0) {
+    for (let i = start; i < lineNumbers.length; i++) {
+      lineNumbers[i] += lineDelta;
+    }
+  }
+}
+
+/**
+ * The most lines a single change can add before the index is built again rather than
+ * kept up to date, which is quicker for changes like replacing the whole document.
+ */
+const maxInsertedLineCount = 1000;
+
+/**
+ * An index of the list items and the other lines that matter to lists in a document,
+ * so that commands don't have to parse the whole document every time they need to look
+ * around a list item. It is built when it is first needed and then kept up to date
+ * from the changes to the document: only the changed lines are parsed again, along
+ * with the lines whose block context or level the changes affect. It also keeps the
+ * context of each line, which parsing lines relies on (see `LineContext`).
+ */
+export class ListIndex {
+  protected document: TextDocument;
+  protected version: number;
+  protected tabSize: number;
+  protected textEditor: TextEditor;
+  protected contentColumns: boolean;
+  protected lines: (IndexedLine | undefined)[];
+  protected lineContexts: (LineContext | undefined)[];
+  protected firstChangedLine?: number;
+  protected lastChangedLine?: number;
+  protected lookups?: LineNumberLookups;
+
+  /**
+   * @param textEditor The text editor whose document to index
+   */
+  constructor(textEditor: TextEditor) {
+    this.document = textEditor.document;
+    this.version = textEditor.document.version;
+    this.tabSize = textEditor.options.tabSize as number;
+    this.textEditor = textEditor;
+    this.contentColumns = usesContentColumns(this.document);
+    this.lines = [];
+    this.lineContexts = [];
+    this.build(textEditor);
+  }
+
+  /**
+   * Works out the context of every line of the document, then parses every line.
+   *
+   * @param textEditor The text editor whose document to index
+   */
+  protected build(textEditor: TextEditor): void {
+    const lastLine = this.document.lineCount - 1;
+    this.lineContexts = new Array<undefined>(lastLine + 1).fill(undefined);
+    this.refreshBlockContexts(0, lastLine);
+    this.refreshContentColumnLevels(0, lastLine);
+    this.lines = [];
+    for (let lineNumber = 0; lineNumber < this.document.lineCount; lineNumber++) {
+      this.lines.push(this.parseLine(textEditor, lineNumber));
+    }
+    this.firstChangedLine = undefined;
+    this.lastChangedLine = undefined;
+    this.lookups = undefined;
+  }
+
+  /**
+   * Works out what the index needs to know about a line.
+   *
+   * @param textEditor The text editor whose document to index
+   * @param lineNumber The line number
+   * @returns The indexed line
+   */
+  protected parseLine(textEditor: TextEditor, lineNumber: number): IndexedLine {
+    const line = this.document.lineAt(lineNumber);
+    var parsedLine: ParsedLine | undefined;
+    try {
+      parsedLine = new ParsedLine(line, textEditor, this);
+    } catch (e) {
+      if (!(e instanceof NotAListItemError)) {
+        throw e;
+      }
+    }
+    const isBlank = isBlankLine(line.text);
+    return {
+      parsedLine: parsedLine,
+      isBlank: isBlank,
+      quoteDepth: getQuoteDepth(line.text),
+      isMarkdown: this.isMarkdownLine(lineNumber),
+      isHeading: this.isHeading(textEditor, lineNumber),
+      endsList:
+        !isBlank &&
+        parsedLine === undefined &&
+        getIndentationWidth(line.text, this.tabSize) === 0,
+    };
+  }
+
+  /**
+   * Records the changes made to the document. The changed lines are parsed again the
+   * next time the index is used.
+   *
+   * @param event The event describing the changes
+   */
+  public applyChanges(event: TextDocumentChangeEvent): void {
+    if (this.version !== event.document.version - 1) {
+      // The index has missed some changes, or has already been built again since these
+      // ones, so leave `refresh` to sort it out
+      return;
+    }
+
+    // Each change applies to the document as left by the ones before it
+    this.version = event.document.version;
+    for (const change of event.contentChanges) {
+      const startLine = change.range.start.line;
+      const endLine = change.range.end.line;
+      const newLineCount = change.text.split(/\r\n|\r|\n/).length;
+      if (newLineCount > maxInsertedLineCount) {
+        // Leave `refresh` to build the index again
+        this.lines = [];
+        this.lineContexts = [];
+        return;
+      }
+      const lineDelta = newLineCount - (endLine - startLine + 1);
+      for (const lines of [this.lines, this.lineContexts]) {
+        lines.splice(
+          startLine,
+          endLine - startLine + 1,
+          ...new Array<undefined>(newLineCount).fill(undefined)
+        );
+      }
+      if (this.lookups !== undefined) {
+        const { listItems, nonBlankLines, listEnds, headings } = this.lookups;
+        for (const lineNumbers of [
+          ...listItems.values(),
+          ...nonBlankLines.values(),
+          ...listEnds.values(),
+          headings,
+        ]) {
+          shiftLineNumbers(lineNumbers, startLine, endLine, lineDelta);
+        }
+      }
+
+      // Keep track of the lines which have changed, which is where `refresh` starts
+      // looking for lines to parse again
+      const newEndLine = startLine + newLineCount - 1;
+      this.lastChangedLine =
+        this.lastChangedLine !== undefined && this.lastChangedLine > endLine
+          ? this.lastChangedLine + lineDelta
+          : newEndLine;
+      this.firstChangedLine = Math.min(this.firstChangedLine ?? startLine, startLine);
+    }
+  }
+
+  /**
+   * Replaces an indexed line, keeping the line number lookups up to date if they have
+   * been worked out.
+   *
+   * @param lineNumber The line number
+   * @param indexedLine The new indexed line
+   */
+  protected setLine(lineNumber: number, indexedLine: IndexedLine): void {
+    const lookups = this.lookups;
+    const oldLine = this.lines[lineNumber];
+    this.lines[lineNumber] = indexedLine;
+    if (lookups === undefined) {
+      return;
+    }
+    if (oldLine !== undefined) {
+      const oldParsedLine = oldLine.parsedLine;
+      if (oldParsedLine !== undefined) {
+        removeLineNumber(
+          lookups.listItems.get(`${oldParsedLine.quoteDepth}:${oldParsedLine.level}`),
+          lineNumber
+        );
+      }
+      removeLineNumber(lookups.nonBlankLines.get(oldLine.quoteDepth), lineNumber);
+      removeLineNumber(lookups.listEnds.get(oldLine.quoteDepth), lineNumber);
+      removeLineNumber(lookups.headings, lineNumber);
+    }
+    this.addToLookups(lookups, lineNumber, indexedLine);
+  }
+
+  /**
+   * Brings the index up to date with the document, parsing the lines which have
+   * changed and any others which the changes affect. If the index can't be kept up to
+   * date from the changes, because it has missed some or the settings it was built
+   * with have changed, it is built again.
+   *
+   * @param textEditor The text editor whose document is indexed
+   */
+  public refresh(textEditor: TextEditor): void {
+    this.document = textEditor.document;
+    this.textEditor = textEditor;
+    if (
+      this.version !== this.document.version ||
+      this.lines.length !== this.document.lineCount ||
+      this.tabSize !== textEditor.options.tabSize ||
+      this.contentColumns !== usesContentColumns(this.document)
+    ) {
+      this.version = this.document.version;
+      this.tabSize = textEditor.options.tabSize as number;
+      this.contentColumns = usesContentColumns(this.document);
+      this.build(textEditor);
+      return;
+    }
+    if (this.firstChangedLine === undefined) {
+      return;
+    }
+
+    // Parsing lines relies on their contexts, so work those out first. Opening or
+    // closing a block changes the lines around it, and in content column mode, so does
+    // changing the indentation of a list item. Markers like `i.` depend on the list
+    // items before them.
+    const lastChangedLine = this.lastChangedLine as number;
+    const { startLine: firstChangedLine, endLine: lastContextLine } =
+      this.refreshBlockContexts(this.firstChangedLine, lastChangedLine);
+    this.refreshContentColumnLevels(firstChangedLine, lastContextLine);
+    const needsParsing = (lineNumber: number): boolean => {
+      const indexedLine = this.lines[lineNumber];
+      const parsedLine = indexedLine?.parsedLine;
+      return (
+        indexedLine === undefined ||
+        indexedLine.isMarkdown !== this.isMarkdownLine(lineNumber) ||
+        (parsedLine !== undefined &&
+          this.contentColumns &&
+          parsedLine.level !== this.getContentColumnLevel(lineNumber)) ||
+        (parsedLine !== undefined &&
+          lineNumber > firstChangedLine &&
+          /^[a-zA-Z][.)]$/.test(parsedLine.marker))
+      );
+    };
+
+    // The changes can't affect anything after an unindented paragraph below them which
+    // is still plain markdown, since it ends any list and any block before it
+    var parseNextLine = false;
+    for (
+      let lineNumber = firstChangedLine;
+      lineNumber < this.lines.length;
+      lineNumber++
+    ) {
+      const lineNeedsParsing = needsParsing(lineNumber);
+      if (lineNeedsParsing || parseNextLine) {
+        this.setLine(lineNumber, this.parseLine(textEditor, lineNumber));
+      } else if (lineNumber > lastChangedLine) {
+        const indexedLine = this.getLine(lineNumber);
+        if (indexedLine.isMarkdown && indexedLine.endsList) {
+          break;
+        }
+      }
+      // Whether a line is a heading can depend on the line before it
+      parseNextLine = lineNeedsParsing;
+    }
+    this.firstChangedLine = undefined;
+    this.lastChangedLine = undefined;
+  }
+
+  /**
+   * Works out the block contexts of the changed lines again, along with those of the
+   * lines which the changes affect. Opening or closing a block changes the lines after
+   * it, and closing an HTML comment, math block or front matter which wasn't closed
+   * before changes the lines before it, back to where the block opens.
+   *
+   * @param firstChangedLine The first changed line
+   * @param lastChangedLine The last changed line
+   * @returns The first and last lines which have changed or have gone into or out of
+   * plain markdown content
+   */
+  protected refreshBlockContexts(
+    firstChangedLine: number,
+    lastChangedLine: number
+  ): { startLine: number; endLine: number } {
+    const document = this.document;
+    const lineContexts = this.lineContexts;
+
+    // Start from the block the line before the changes is in, since they may have
+    // moved where it closes
+    var lineNumber = Math.max(0, firstChangedLine - 1);
+    while (lineNumber > 0 && !(lineContexts[lineNumber] as LineContext).startsBlock) {
+      lineNumber--;
+    }
+    if (lineNumber > 0) {
+      var closesComment = false;
+      var closesMath = false;
+      var closesFrontMatter = false;
+      for (let i = firstChangedLine; i <= lastChangedLine; i++) {
+        const text = document.lineAt(i).text;
+        closesComment = closesComment || text.includes("-->");
+        closesMath = closesMath || text.includes("$$");
+        closesFrontMatter = closesFrontMatter || /^(---|\.\.\.|\+\+\+)\s*$/.test(text);
+      }
+
+      // An HTML comment or math block which isn't closed only covers the line it opens
+      // on, so start from the first one the changes might close
+      for (let i = lineNumber - 1; i >= 0 && (closesComment || closesMath); i--) {
+        const { blockContext, startsBlock } = lineContexts[i] as LineContext;
+        const delimiters =
+          closesComment && blockContext === BlockContext.htmlComment
+            ? ["<!--", "-->"]
+            : closesMath && blockContext === BlockContext.mathBlock
+            ? ["$$", "$$"]
+            : undefined;
+        if (
+          delimiters === undefined ||
+          !startsBlock ||
+          !(lineContexts[i + 1] as LineContext).startsBlock
+        ) {
+          continue;
+        }
+        const text = document.lineAt(i).text;
+        if (
+          !text.includes(
+            delimiters[1],
+            text.indexOf(delimiters[0]) + delimiters[0].length
+          )
+        ) {
+          lineNumber = i;
+        }
+      }
+      if (
+        closesFrontMatter &&
+        (lineContexts[0] as LineContext).blockContext !== BlockContext.frontMatter &&
+        /^(---|\+\+\+)\s*$/.test(document.lineAt(0).text)
+      ) {
+        lineNumber = 0;
+      }
+    }
+
+    var startLine = firstChangedLine;
+    var endLine = lastChangedLine;
+    while (lineNumber < document.lineCount) {
+      // Once past the changes, the blocks are the same as before from the first line
+      // where a block started before
+      const lineContext = lineContexts[lineNumber];
+      if (
+        lineNumber > lastChangedLine &&
+        lineContext !== undefined &&
+        lineContext.startsBlock
+      ) {
+        break;
+      }
+      const block = scanBlock(document, lineNumber);
+      const isMarkdown = block.blockContext === BlockContext.markdown;
+      for (let i = lineNumber; i <= block.endLine; i++) {
+        const oldLineContext = lineContexts[i];
+        if (oldLineContext === undefined) {
+          lineContexts[i] = {
+            blockContext: block.blockContext,
+            startsBlock: i === lineNumber,
+          };
+          continue;
+        }
+        if ((oldLineContext.blockContext === BlockContext.markdown) !== isMarkdown) {
+          startLine = Math.min(startLine, i);
+          endLine = Math.max(endLine, i);
+        }
+        oldLineContext.blockContext = block.blockContext;
+        oldLineContext.startsBlock = i === lineNumber;
+      }
+      lineNumber = block.endLine + 1;
+    }
+    return { startLine: startLine, endLine: endLine };
+  }
+
+  /**
+   * Works out the content column levels of the list items from a line onwards again,
+   * going on until past another line. See `getContentColumnLevel`.
+   *
+   * @param startLine The first line whose level may have changed
+   * @param endLine The last line which has changed or whose block context has
+   */
+  protected refreshContentColumnLevels(startLine: number, endLine: number): void {
+    const document = this.document;
+    const tabSize = this.tabSize;
+
+    // A line of plain markdown content which isn't indented ends every list item, so
+    // the levels after it don't depend on anything before it
+    const endsListItems = (lineNumber: number, text: string): boolean =>
+      this.isMarkdownLine(lineNumber) &&
+      !isBlankLine(text) &&
+      getIndentationWidth(text, tabSize) === 0;
+    var lineNumber = startLine;
+    while (
+      lineNumber > 0 &&
+      !endsListItems(lineNumber, document.lineAt(lineNumber).text)
+    ) {
+      lineNumber--;
+    }
+
+    var openContentColumns: number[] = [];
+    var quoteDepth = 0;
+    for (; lineNumber < document.lineCount; lineNumber++) {
+      const lineContext = this.lineContexts[lineNumber] as LineContext;
+      const text = document.lineAt(lineNumber).text;
+      lineContext.contentColumnLevel = undefined;
+      if (isBlankLine(text) || !this.isMarkdownLine(lineNumber)) {
+        continue;
+      }
+      if (getQuoteDepth(text) !== quoteDepth) {
+        openContentColumns = [];
+        quoteDepth = getQuoteDepth(text);
+      }
+      const indentation = getIndentationWidth(text, tabSize);
+      while (
+        openContentColumns.length > 0 &&
+        openContentColumns[openContentColumns.length - 1] > indentation
+      ) {
+        openContentColumns.pop();
+      }
+      const match = matchListItem(text);
+      if (match !== null) {
+        lineContext.contentColumnLevel = openContentColumns.length;
+        openContentColumns.push(indentation + match[3].length + match[4].length);
+      }
+      if (lineNumber > endLine && indentation === 0) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Checks whether a line is a markdown heading, either an ATX heading (`# Heading`) or
+   * the underline of a setext heading (`===` or `---` under a paragraph).
+   *
+   * @param textEditor The text editor whose document is indexed
+   * @param lineNumber The line number to check
+   * @returns Whether the line is a heading
+   */
+  protected isHeading(textEditor: TextEditor, lineNumber: number): boolean {
+    if (!this.isMarkdownLine(lineNumber)) {
+      return false;
+    }
+    const text = this.document.lineAt(lineNumber).text;
+    if (/^ {0,3}#{1,6}(\s|$)/.test(text)) {
+      return true;
+    }
+    if (lineNumber === 0 || !/^ {0,3}(=+|-+)\s*$/.test(text)) {
+      return false;
+    }
+    const previousLine = this.document.lineAt(lineNumber - 1);
+    if (/^\s*$/.test(previousLine.text) || !this.isMarkdownLine(lineNumber - 1)) {
+      return false;
+    }
+    try {
+      new ParsedLine(previousLine, textEditor, this);
+      return false;
+    } catch (e) {
+      if (e instanceof NotAListItemError) {
+        return true;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Checks whether a line is plain markdown content, rather than being inside a code
+   * fence, front matter, HTML comment or math block.
+   *
+   * @param lineNumber The line number
+   * @returns Whether the line is plain markdown content
+   */
+  public isMarkdownLine(lineNumber: number): boolean {
+    return (
+      (this.lineContexts[lineNumber] as LineContext).blockContext ===
+      BlockContext.markdown
+    );
+  }
+
+  /**
+   * Gets the level of a list item worked out from the columns the content of list
+   * items starts at. See `getContentColumnLevel`.
+   *
+   * @param lineNumber The line number of the list item
+   * @returns The level of the list item
+   */
+  public getContentColumnLevel(lineNumber: number): number {
+    return (this.lineContexts[lineNumber] as LineContext).contentColumnLevel ?? 0;
+  }
+
+  /**
+   * Gets the indexed line at a line number.
+   *
+   * @param lineNumber The line number
+   * @returns The indexed line
+   */
+  protected getLine(lineNumber: number): IndexedLine {
+    return this.lines[lineNumber] as IndexedLine;
+  }
+
+  /**
+   * Gets the sorted line numbers of the different kinds of line, working them out the
+   * first time they are needed. After that, they are kept up to date as lines change.
+   *
+   * @returns The line number lookups
+   */
+  protected getLookups(): LineNumberLookups {
+    if (this.lookups !== undefined) {
+      return this.lookups;
+    }
+    const lookups: LineNumberLookups = {
+      listItems: new Map(),
+      nonBlankLines: new Map(),
+      listEnds: new Map(),
+      headings: [],
+    };
+    for (const [lineNumber, indexedLine] of this.lines.entries()) {
+      this.addToLookups(lookups, lineNumber, indexedLine as IndexedLine);
+    }
+    this.lookups = lookups;
+    return lookups;
+  }
+
+  /**
+   * Adds an indexed line to the line number lookups.
+   *
+   * @param lookups The line number lookups
+   * @param lineNumber The line number
+   * @param indexedLine The indexed line
+   */
+  protected addToLookups(
+    lookups: LineNumberLookups,
+    lineNumber: number,
+    indexedLine: IndexedLine
+  ): void {
+    const { parsedLine, quoteDepth, isBlank, endsList, isHeading } = indexedLine;
+    if (parsedLine !== undefined) {
+      addLineNumber(
+        lookups.listItems,
+        `${parsedLine.quoteDepth}:${parsedLine.level}`,
+        lineNumber
+      );
+    }
+    if (!isBlank) {
+      addLineNumber(lookups.nonBlankLines, quoteDepth, lineNumber);
+    }
+    if (endsList) {
+      addLineNumber(lookups.listEnds, quoteDepth, lineNumber);
+    }
+    if (isHeading) {
+      insertLineNumber(lookups.headings, lineNumber);
+    }
+  }
+
+  /**
+   * Gets the list item on a line.
+   *
+   * @param lineNumber The line number
+   * @returns The list item, or undefined if the line isn't a list item
+   */
+  public getParsedLine(lineNumber: number): ParsedLine | undefined {
+    const parsedLine = this.getLine(lineNumber).parsedLine;
+    if (parsedLine === undefined) {
+      return undefined;
+    }
+    if (parsedLine.line.lineNumber !== lineNumber) {
+      // The line has moved since it was parsed
+      parsedLine.line = this.document.lineAt(lineNumber);
+    }
+    // Changes to the list item are made with the options of the text editor asking
+    // for it, such as whether to indent with spaces
+    parsedLine.textEditor = this.textEditor;
+    return parsedLine;
+  }
+
+  /**
+   * Gets the range of lines making up the list a line is in. See `getListRange`.
+   *
+   * @param lineNumber The line number to get the range for
+   * @returns The first and last line numbers of the list
+   */
+  public getListRange(lineNumber: number): { startLine: number; endLine: number } {
+    const lookups = this.getLookups();
+    const quoteDepth = this.getLine(lineNumber).quoteDepth;
+
+    // Lists are ended by the nearest line in another blockquote or unindented paragraph
+    const findBoundary = (direction: -1 | 1): number | undefined => {
+      const boundaries = [
+        findNearestLineNumber(lookups.listEnds.get(quoteDepth), lineNumber, direction),
+      ];
+      for (const [otherQuoteDepth, lineNumbers] of lookups.nonBlankLines) {
+        if (otherQuoteDepth !== quoteDepth) {
+          boundaries.push(findNearestLineNumber(lineNumbers, lineNumber, direction));
+        }
+      }
+      const definedBoundaries = boundaries.filter(
+        (boundary) => boundary !== undefined
+      ) as number[];
+      if (definedBoundaries.length === 0) {
+        return undefined;
+      }
+      return direction === -1
+        ? Math.max(...definedBoundaries)
+        : Math.min(...definedBoundaries);
+    };
+    const boundaryAbove = findBoundary(-1);
+    const boundaryBelow = findBoundary(1);
+    return {
+      startLine: boundaryAbove !== undefined ? boundaryAbove + 1 : 0,
+      endLine: boundaryBelow !== undefined ? boundaryBelow - 1 : this.lines.length - 1,
+    };
+  }
+
+  /**
+   * Gets the range of lines making up the section a line is in, between the headings
+   * around it.
+   *
+   * @param lineNumber The line number to get the range for
+   * @returns The first and last line numbers of the section
+   */
+  public getSectionRange(lineNumber: number): { startLine: number; endLine: number } {
+    const headings = this.getLookups().headings;
+    const headingAbove = findNearestLineNumber(headings, lineNumber, -1);
+    const headingBelow = findNearestLineNumber(headings, lineNumber, 1);
+    return {
+      startLine: headingAbove !== undefined ? headingAbove + 1 : 0,
+      endLine: headingBelow !== undefined ? headingBelow - 1 : this.lines.length - 1,
+    };
+  }
+
+  /**
+   * Finds the nearest list item at a level going up or down from a line, not including
+   * the line itself.
+   *
+   * @param lineNumber The line number to start from
+   * @param level The level of the list item
+   * @param quoteDepth The number of blockquotes the list item is nested in
+   * @param direction -1 to look up the document and 1 to look down it
+   * @returns The line number of the list item, or undefined if there isn't one
+   */
+  public findNearestListItem(
+    lineNumber: number,
+    level: number,
+    quoteDepth: number,
+    direction: -1 | 1
+  ): number | undefined {
+    return findNearestLineNumber(
+      this.getLookups().listItems.get(`${quoteDepth}:${level}`),
+      lineNumber,
+      direction
+    );
+  }
+
+  /**
+   * Finds the nearest list item at a level or a lower one going up or down from a line,
+   * not including the line itself.
+   *
+   * @param lineNumber The line number to start from
+   * @param level The highest level of the list item
+   * @param quoteDepth The number of blockquotes the list item is nested in
+   * @param direction -1 to look up the document and 1 to look down it
+   * @returns The line number of the list item, or undefined if there isn't one
+   */
+  public findNearestListItemUpToLevel(
+    lineNumber: number,
+    level: number,
+    quoteDepth: number,
+    direction: -1 | 1
+  ): number | undefined {
+    return findNearestLineNumberIn(
+      this.getLookups().listItems,
+      (key) => {
+        const [itemQuoteDepth, itemLevel] = key.split(":").map(Number);
+        return itemQuoteDepth === quoteDepth && itemLevel <= level;
+      },
+      lineNumber,
+      direction
+    );
+  }
+
+  /**
+   * Finds the nearest list item at any level and in any blockquote going up or down
+   * from a line, not including the line itself.
+   *
+   * @param lineNumber The line number to start from
+   * @param direction -1 to look up the document and 1 to look down it
+   * @returns The line number of the list item, or undefined if there isn't one
+   */
+  public findNearestAnyListItem(
+    lineNumber: number,
+    direction: -1 | 1
+  ): number | undefined {
+    return findNearestLineNumberIn(
+      this.getLookups().listItems,
+      () => true,
+      lineNumber,
+      direction
+    );
+  }
+
+  /**
+   * Finds the nearest line which isn't blank going up or down from a line, not
+   * including the line itself.
+   *
+   * @param lineNumber The line number to start from
+   * @param direction -1 to look up the document and 1 to look down it
+   * @returns The line number of the line, or undefined if there isn't one
+   */
+  public findNearestNonBlankLine(
+    lineNumber: number,
+    direction: -1 | 1
+  ): number | undefined {
+    return findNearestLineNumberIn(
+      this.getLookups().nonBlankLines,
+      () => true,
+      lineNumber,
+      direction
+    );
+  }
+
+  /**
+   * Finds the nearest unindented line which isn't a list item, in any blockquote, going
+   * up or down from a line, not including the line itself.
+   *
+   * @param lineNumber The line number to start from
+   * @param direction -1 to look up the document and 1 to look down it
+   * @returns The line number of the line, or undefined if there isn't one
+   */
+  public findNearestListEnd(lineNumber: number, direction: -1 | 1): number | undefined {
+    return findNearestLineNumberIn(
+      this.getLookups().listEnds,
+      () => true,
+      lineNumber,
+      direction
+    );
+  }
+
+  /**
+   * Gets the numbers of the nearest two numbered list items at a level, looking either
+   * up or down from a line and stopping at the end of the list. The list ends at a list
+   * item at a lower level, one in another blockquote, or one at the same level which
+   * isn't numbered.
+   *
+   * @param lineNumber The line number to start from, which isn't included
+   * @param level The level of the list items
+   * @param quoteDepth The number of blockquotes the list is nested in
+   * @param direction -1 to look up the document and 1 to look down it
+   * @returns The numbers of the list items, nearest first
+   */
+  public getSiblingNumbers(
+    lineNumber: number,
+    level: number,
+    quoteDepth: number,
+    direction: -1 | 1
+  ): number[] {
+    const lookups = this.getLookups();
+    const isBefore = (a: number, b: number) => (direction === -1 ? a > b : a < b);
+
+    // Find the nearest list item which ends the list
+    const end = findNearestLineNumberIn(
+      lookups.listItems,
+      (key) => {
+        const [itemQuoteDepth, itemLevel] = key.split(":").map(Number);
+        return itemQuoteDepth !== quoteDepth || itemLevel < level;
+      },
+      lineNumber,
+      direction
+    );
+
+    const siblings = lookups.listItems.get(`${quoteDepth}:${level}`) ?? [];
+    const numbers: number[] = [];
+    var index =
+      direction === -1
+        ? searchLineNumbers(siblings, lineNumber) - 1
+        : searchLineNumbers(siblings, lineNumber + 1);
+    while (
+      index >= 0 &&
+      index < siblings.length &&
+      (end === undefined || isBefore(siblings[index], end)) &&
+      numbers.length < 2
+    ) {
+      const sibling = this.getLine(siblings[index]).parsedLine as ParsedLine;
+      if (!sibling.markerIsNumber) {
+        break;
+      }
+      numbers.push(sibling.markerNumber as number);
+      index += direction;
+    }
+    return numbers;
+  }
+}
+
+const listIndexes = new WeakMap<TextDocument, ListIndex>();
+
+/**
+ * Gets the list index of the document in a text editor, building it if it hasn't been
+ * built yet and bringing it up to date otherwise.
+ *
+ * @param textEditor The text editor
+ * @returns The list index of its document
+ */
+export function getListIndex(textEditor: TextEditor): ListIndex {
+  var listIndex = listIndexes.get(textEditor.document);
+  if (listIndex === undefined) {
+    listIndex = new ListIndex(textEditor);
+    listIndexes.set(textEditor.document, listIndex);
+  } else {
+    listIndex.refresh(textEditor);
+  }
+  return listIndex;
+}
+
+/**
+ * Keeps the list index of a document up to date as it changes. This is called for
+ * every change to a text document.
+ *
+ * @param event The event describing the changes
+ */
+export function updateListIndex(event: TextDocumentChangeEvent): void {
+  listIndexes.get(event.document)?.applyChanges(event);
+}
@@ -0,0 +1,821 @@
+import {
+  getIndentationWidth,
+  getQuoteDepth,
+  getQuotePrefix,
+  isBlankLine,
+  quotePrefixPattern,
+} from "./blockquote";
+import { ListIndex, getListIndex } from "./listIndex";
+import { getSetting } from "./listSettings";
+import {
+  NumberingStyle,
+  formatMarkerNumber,
+  isAmbiguousLetter,
+  parseMarkerNumber,
+} from "./numbering";
+import {
+  TextDocument,
+  TextEditBuilder,
+  TextEditor,
+  TextLine,
+  createRange,
+} from "./textDocument";
+
+/**
+ * Creates indentation up to the given level, based on the text editor's settings.
+ *
+ * @param textEditor The text editor
+ * @param level The level of indentation to create
+ *
+ * @returns The indentation string
+ */
+export function createIndentation(textEditor: TextEditor, level: number): string {
+  if (textEditor.options.insertSpaces) {
+    const tabSize = textEditor.options.tabSize as number;
+    return " ".repeat(tabSize * level);
+  } else {
+    return "\t".repeat(level);
+  }
+}
+
+/**
+ * Creates indentation of the given width, based on the text editor's settings. When
+ * indenting with tabs, any columns left over after the tabs are filled with spaces.
+ *
+ * @param textEditor The text editor
+ * @param columns The number of columns of indentation to create
+ *
+ * @returns The indentation string
+ */
+export function createIndentationOfWidth(
+  textEditor: TextEditor,
+  columns: number
+): string {
+  if (textEditor.options.insertSpaces) {
+    return " ".repeat(columns);
+  } else {
+    const tabSize = textEditor.options.tabSize as number;
+    return "\t".repeat(Math.floor(columns / tabSize)) + " ".repeat(columns % tabSize);
+  }
+}
+
+export class NotAListItemError extends Error {}
+
+/**
+ * Checks that a string matching the marker pattern really is a marker. Strings of
+ * several letters are only markers when they are roman numerals.
+ *
+ * @param marker The marker to check
+ * @returns Whether the marker is valid
+ */
+function isValidMarker(marker: string): boolean {
+  const markerMatch = /^([a-zA-Z]{2,})[.)]$/.exec(marker);
+  return markerMatch === null || parseMarkerNumber(markerMatch[1]) !== undefined;
+}
+
+/**
+ * The pattern matching a list marker. This is a bullet, optionally with a task list
+ * checkbox, or a number, letter, roman numeral or `#` followed by a delimiter.
+ */
+const markerPattern =
+  /[-*+](?: \[[xX ]\])?|(?:[0-9]+|[a-zA-Z]|[ivxlcdm]+|[IVXLCDM]+|#)[.)]/;
+
+/**
+ * The pattern matching a list item line, with groups for the blockquote markers, the
+ * initial spacing, the marker, the spaces after the marker and the remainder of the
+ * line.
+ */
+const listItemPattern = new RegExp(
+  `^(${quotePrefixPattern.source.substring(1)})(\\s*)(${markerPattern.source})( +)(.*)`
+);
+
+/**
+ * The pattern matching a full marker, with groups for the initial spaces and the marker.
+ */
+const fullMarkerPattern = new RegExp(`^(\\s*)(${markerPattern.source})`);
+
+/**
+ * Gets the spaces a list item needs after its marker. Following Pandoc, a capital letter
+ * followed by a period needs two, so that initials like `A. Smith` and headings like
+ * `I. Introduction` aren't taken for list items. Every other marker needs one.
+ *
+ * @param marker The marker
+ * @returns The spaces
+ */
+export function getMarkerSpacing(marker: string): string {
+  return /^[A-Z]\.$/.test(marker) ? "  " : " ";
+}
+
+/**
+ * Matches a line against the list item pattern, checking that the marker is valid and
+ * has enough spaces after it. See `isValidMarker` and `getMarkerSpacing`.
+ *
+ * @param text The text of the line
+ * @returns The match, with the groups of `listItemPattern`, or null if the line isn't a
+ * list item
+ */
+export function matchListItem(text: string): RegExpExecArray | null {
+  const match = listItemPattern.exec(text);
+  if (
+    match === null ||
+    !isValidMarker(match[3]) ||
+    match[4].length < getMarkerSpacing(match[3]).length
+  ) {
+    return null;
+  }
+  return match;
+}
+
+/**
+ * Checks whether a word would be read as a list marker if it started a line and was
+ * followed by a single space, as the words of a rewrapped paragraph are. A capital
+ * letter followed by a period isn't, since it needs two spaces after it.
+ *
+ * @param word The word
+ * @returns Whether the word would start a list item
+ */
+export function startsListItem(word: string): boolean {
+  const match = matchListItem(`${word} x`);
+  return match !== null && match[1] === "" && match[3] === word;
+}
+
+/**
+ * Checks whether the user has chosen to work out indentation levels from the columns
+ * the content of list items starts at, rather than from the tab size.
+ *
+ * @param document The document
+ * @returns Whether the `indentationMode` setting is `contentColumn`
+ */
+export function usesContentColumns(document: TextDocument): boolean {
+  return getSetting("indentationMode", document) === "contentColumn";
+}
+
+/**
+ * Gets the indentation level of a list item from the columns the content of list items
+ * starts at, following CommonMark. A list item is nested under the closest list item
+ * above it whose content starts at or before its indentation, and paragraphs end the
+ * list items whose content starts after their indentation. Going into or out of a
+ * blockquote ends every list item. The levels are kept in the document's list index.
+ *
+ * @param textEditor The text editor
+ * @param lineNumber The line number of the list item
+ * @returns The indentation level of the list item
+ */
+export function getContentColumnLevel(
+  textEditor: TextEditor,
+  lineNumber: number
+): number {
+  return getListIndex(textEditor).getContentColumnLevel(lineNumber);
+}
+
+/**
+ * A class to hold the various parts of a list item line
+ *
+ * @property line The original text line
+ * @property quotePrefix The blockquote markers before the list item, such as `> `
+ * @property quoteDepth The number of blockquotes the list item is nested in
+ * @property initialSpacing All the space characters before the list marker, after the
+ * blockquote markers
+ * @property indentationAsSpaces All the space characters before the list marker, but
+ * converted to spaces
+ * @property level The indentation level, which is the floor of the number of initial
+ * spaces divided by the tab size, or the number of list items the line is nested under
+ * when the `indentationMode` setting is `contentColumn`
+ * @property marker The list marker
+ * @property markerIsNumber Whether the marker is numbered, which includes letters and
+ * roman numerals but not the automatic `#` marker
+ * @property markerNumber The number of the marker, if it is numbered
+ * @property markerNumberingStyle The style the marker is numbered in, if it is numbered
+ * @property markerDelimiter The `.` or `)` after the number, if it is numbered
+ * @property markerIsTask Whether the marker has a task list checkbox
+ * @property markerIsChecked Whether the task list checkbox is checked, if there is one
+ * @property markerInitialSpaces The spaces before the marker left over after we remove
+ * the indentation level times the tab size from the initial spacing. This is always
+ * empty when the `indentationMode` setting is `contentColumn`
+ * @property markerTrailingSpaces The spaces after the marker but before the remainder
+ * of the line
+ * @property remainder The remainder of the line after the list marker and trailing
+ * spaces
+ */
+export class ParsedLine {
+  line: TextLine;
+  textEditor: TextEditor;
+  quotePrefix: string;
+  quoteDepth: number;
+  initialSpacing: string;
+  initialSpacingAsSpaces: string;
+  level: number;
+  marker: string;
+  markerInitialSpaces: string;
+  markerIsNumber: boolean;
+  markerNumber?: number;
+  markerNumberingStyle?: NumberingStyle;
+  markerIsTask: boolean;
+  markerIsChecked?: boolean;
+  markerDelimiter?: string;
+  markerTrailingSpaces: string;
+  remainder: string;
+  protected tabSize: number;
+
+  /**
+   * @param line The line to parse
+   * @param textEditor The text editor the line is in
+   * @param listIndex The list index of the document, which knows which lines are plain
+   * markdown and the content column levels of the list items. Defaults to the text
+   * editor's
+   */
+  constructor(
+    line: TextLine,
+    textEditor: TextEditor,
+    listIndex: ListIndex = getListIndex(textEditor)
+  ) {
+    this.line = line;
+    this.textEditor = textEditor;
+    this.tabSize = textEditor.options.tabSize as number;
+
+    // Lines in code fences, front matter and so on are never list items
+    if (!listIndex.isMarkdownLine(line.lineNumber)) {
+      throw new NotAListItemError();
+    }
+
+    // Parse the line into its parts
+    const match = matchListItem(line.text);
+    if (match === null) {
+      throw new NotAListItemError();
+    }
+
+    this.quotePrefix = match[1];
+    this.quoteDepth = getQuoteDepth(this.quotePrefix);
+    this.initialSpacing = match[2];
+    this.initialSpacingAsSpaces = this.getInitialSpacingAsSpaces();
+    if (usesContentColumns(textEditor.document)) {
+      this.level = listIndex.getContentColumnLevel(line.lineNumber);
+      this.markerInitialSpaces = "";
+    } else {
+      this.level = Math.floor(this.initialSpacingAsSpaces.length / this.tabSize);
+      this.markerInitialSpaces = this.initialSpacingAsSpaces.substring(
+        this.level * this.tabSize
+      );
+    }
+    this.marker = match[3];
+    this.markerTrailingSpaces = match[4];
+    this.remainder = match[5];
+
+    this.markerIsNumber = false;
+    this.markerIsTask = false;
+    this.parseMarker(this.getPreviousNumberingStyle());
+  }
+
+  /**
+   * Parses the marker into its parts. If the marker is a number, it will set the marker
+   * number, numbering style and delimiter. If the marker has a task list checkbox, it
+   * will set whether it is checked. Otherwise, it won't set anything.
+   *
+   * @param preferredStyle The numbering style to use if the marker is a letter which
+   * could be alphabetic or a roman numeral
+   */
+  protected parseMarker(preferredStyle?: NumberingStyle): void {
+    const markerMatch = /^([0-9a-zA-Z]+)([.)])/.exec(this.marker);
+    const markerNumber =
+      markerMatch !== null
+        ? parseMarkerNumber(markerMatch[1], preferredStyle)
+        : undefined;
+    if (markerMatch !== null && markerNumber !== undefined) {
+      this.markerNumber = markerNumber.number;
+      this.markerNumberingStyle = markerNumber.numberingStyle;
+      this.markerDelimiter = markerMatch[2];
+      this.markerIsNumber = true;
+    } else {
+      this.markerNumber = undefined;
+      this.markerNumberingStyle = undefined;
+      this.markerDelimiter = undefined;
+      this.markerIsNumber = false;
+    }
+
+    const taskMatch = /\[([xX ])\]$/.exec(this.marker);
+    if (taskMatch !== null) {
+      this.markerIsChecked = taskMatch[1] !== " ";
+      this.markerIsTask = true;
+    } else {
+      this.markerIsTask = false;
+    }
+  }
+
+  /**
+   * Works out whether a marker like `i.` or `c)`, which could be alphabetic or a roman
+   * numeral, carries on an alphabetic or roman list. This looks upwards for the previous
+   * item indented the same amount in the same blockquote, going past any others which
+   * are also ambiguous.
+   *
+   * @returns The numbering style of the previous item, or undefined if the marker isn't
+   * ambiguous or there is no previous item to go by
+   */
+  protected getPreviousNumberingStyle(): NumberingStyle | undefined {
+    const markerMatch = /^([a-zA-Z])[.)]/.exec(this.marker);
+    if (markerMatch === null || !isAmbiguousLetter(markerMatch[1])) {
+      return undefined;
+    }
+    const document = this.textEditor.document;
+    const indentation = this.initialSpacingAsSpaces.length;
+    for (var lineNumber = this.line.lineNumber - 1; lineNumber >= 0; lineNumber--) {
+      const line = document.lineAt(lineNumber);
+      if (isBlankLine(line.text)) {
+        continue;
+      }
+      if (getQuoteDepth(line.text) !== this.quoteDepth) {
+        return undefined;
+      }
+      const lineIndentation = getIndentationWidth(line.text, this.tabSize);
+      if (lineIndentation > indentation) {
+        continue;
+      }
+      const match = /^\s*([a-zA-Z]+)([.)]) /.exec(
+        line.text.substring(getQuotePrefix(line.text).length)
+      );
+      if (lineIndentation < indentation || match === null) {
+        return undefined;
+      }
+      if (!isAmbiguousLetter(match[1])) {
+        return parseMarkerNumber(match[1])?.numberingStyle;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the initial spacing with tabs converted to spaces.
+   *
+   * @returns The initial spacing as spaces
+   */
+  protected getInitialSpacingAsSpaces(): string {
+    return this.initialSpacing.replace(/\t/g, " ".repeat(this.tabSize as number));
+  }
+
+  /**
+   * Returns the full marker, which is the marker initial spaces and the marker itself.
+   *
+   * @returns The full marker
+   */
+  public getFullMarker(): string {
+    return this.markerInitialSpaces + this.marker;
+  }
+
+  /**
+   * Returns the column that the content of the list item starts at, which is the width
+   * of the head after the blockquote markers with tabs counted as the tab size.
+   *
+   * @returns The content column
+   */
+  public getContentColumn(): number {
+    return (
+      this.initialSpacingAsSpaces.length +
+      this.marker.length +
+      this.markerTrailingSpaces.length
+    );
+  }
+
+  /**
+   * Returns the head of the marker, which everything but the remainder of the line,
+   * i.e. the blockquote markers, the initial spacing, the marker itself, and the
+   * trailing spaces.
+   *
+   * @returns The head of the marker
+   */
+  public getHead(): string {
+    return (
+      this.quotePrefix + this.initialSpacing + this.marker + this.markerTrailingSpaces
+    );
+  }
+}
+
+/**
+ * A class which holds a version of a parsed line which can be modified.
+ * @extends ParsedLine
+ */
+export class EditedParsedLine extends ParsedLine {
+  originalParsedLine?: ParsedLine;
+
+  /*
+   * Creates an EditedParsedLine from a ParsedLine.
+   *
+   * @param parsedLine The ParsedLine to create an EditedParsedLine from
+   * @returns The EditedParsedLine
+   */
+  static fromParsedLine(parsedLine: ParsedLine): EditedParsedLine {
+    const editedParsedLine = new EditedParsedLine(
+      parsedLine.line,
+      parsedLine.textEditor
+    );
+    editedParsedLine.originalParsedLine = parsedLine;
+    return editedParsedLine;
+  }
+
+  /**
+   * Sets the marker to the given string.
+   *
+   * @param marker The marker to set
+   */
+  public setMarker(marker: string): void {
+    this.marker = marker;
+    this.parseMarker();
+    this.widenMarkerSpacing();
+  }
+
+  /**
+   * Sets the full marker to the given string, which includes the initial spacing after
+   * the indentation.
+   *
+   * @param fullMarker The full marker to set
+   */
+  public setFullMarker(fullMarker: string): void {
+    const fullMarkerMatch = fullMarkerPattern.exec(fullMarker);
+    if (fullMarkerMatch === null || !isValidMarker(fullMarkerMatch[2])) {
+      throw new Error("Invalid full marker");
+    }
+    if (usesContentColumns(this.textEditor.document)) {
+      // The indentation doesn't depend on the level, so leave it as it is
+      this.initialSpacing = this.initialSpacing.substring(
+        0,
+        this.initialSpacing.length - this.markerInitialSpaces.length
+      );
+      this.markerInitialSpaces = "";
+    } else {
+      this.markerInitialSpaces = fullMarkerMatch[1];
+      this.initialSpacing = createIndentation(this.textEditor, this.level);
+    }
+    this.initialSpacing = this.initialSpacing + this.markerInitialSpaces;
+    this.initialSpacingAsSpaces = this.getInitialSpacingAsSpaces();
+    this.setMarker(fullMarkerMatch[2]);
+  }
+
+  /**
+   * Sets the marker number, if the marker is a number. Otherwise, throws an error. The
+   * number is written in the marker's numbering style.
+   *
+   * @param number The number to set the marker to
+   */
+  public setMarkerNumber(number: number): void {
+    if (!this.markerIsNumber) {
+      throw new Error("Marker is not a number");
+    }
+    this.markerNumber = number;
+    const numberText = formatMarkerNumber(
+      number,
+      this.markerNumberingStyle as NumberingStyle
+    );
+    this.marker = `${numberText}${this.markerDelimiter}`;
+    this.widenMarkerSpacing();
+  }
+
+  /**
+   * Checks or unchecks the task list checkbox, if the marker has one. Otherwise, throws
+   * an error.
+   *
+   * @param checked Whether the checkbox should be checked
+   */
+  public setTaskChecked(checked: boolean): void {
+    if (!this.markerIsTask) {
+      throw new Error("Marker is not a task");
+    }
+    this.setMarker(this.marker.replace(/\[[xX ]\]$/, checked ? "[x]" : "[ ]"));
+  }
+
+  /**
+   * Sets the text of the line after the marker and the spaces after it.
+   *
+   * @param remainder The new remainder
+   */
+  public setRemainder(remainder: string): void {
+    this.remainder = remainder;
+  }
+
+  /**
+   * Removes any spaces between the indentation and the marker.
+   */
+  public removeMarkerInitialSpaces(): void {
+    this.initialSpacing = this.initialSpacing.substring(
+      0,
+      this.initialSpacing.length - this.markerInitialSpaces.length
+    );
+    this.initialSpacingAsSpaces = this.getInitialSpacingAsSpaces();
+    this.markerInitialSpaces = "";
+  }
+
+  /**
+   * Adds spaces after the marker if it needs more than it has, so that the line stays a
+   * list item. See `getMarkerSpacing`.
+   */
+  protected widenMarkerSpacing(): void {
+    const markerSpacing = getMarkerSpacing(this.marker);
+    if (this.markerTrailingSpaces.length < markerSpacing.length) {
+      this.markerTrailingSpaces = markerSpacing;
+    }
+  }
+
+  /**
+   * Leaves as few spaces between the marker and the remainder of the line as the marker
+   * needs, which is usually one. See `getMarkerSpacing`.
+   */
+  public collapseMarkerSpacing(): void {
+    this.markerTrailingSpaces = getMarkerSpacing(this.marker);
+  }
+
+  /**
+   * Sets the indentation before the marker, without changing the indentation level.
+   *
+   * @param indentation The new indentation
+   */
+  public setIndentation(indentation: string): void {
+    this.initialSpacing = indentation + this.markerInitialSpaces;
+    this.initialSpacingAsSpaces = this.getInitialSpacingAsSpaces();
+  }
+
+  /**
+   * Sets the indentation level to the given level. When the `indentationMode` setting is
+   * `contentColumn`, the new indentation is only provisional: `ListEdit` aligns it with
+   * the content of the parent list item once all the changes are known.
+   *
+   * @param level The level to set the indentation to
+   */
+  public setIndentationLevel(level: number): void {
+    this.level = level;
+    this.initialSpacing = createIndentation(this.textEditor, level);
+    this.initialSpacing = this.initialSpacing + this.markerInitialSpaces;
+    this.initialSpacingAsSpaces = this.getInitialSpacingAsSpaces();
+  }
+
+  /**
+   * Sets the indentation level to the given level and determines the marker based on
+   * the marker levels in the document. The state of the task list checkbox is kept, or
+   * is unchecked if the line didn't have one before.
+   *
+   * @param level The level to set the indentation to
+   * @param markerLevels The marker levels in the document
+   */
+  public setIndentationLevelAndDetermineMarker(
+    level: number,
+    markerLevels: string[]
+  ): void {
+    const newFullMarker = determineFullMarker(
+      this.textEditor.document,
+      markerLevels,
+      level
+    );
+    const wasChecked = this.markerIsTask && this.markerIsChecked === true;
+    this.setIndentationLevel(level);
+    this.setFullMarker(newFullMarker);
+    if (this.markerIsTask) {
+      this.setTaskChecked(wasChecked);
+    }
+    if (this.markerIsNumber) {
+      const newNumber = determineMarkerNumber(
+        this.textEditor,
+        this.line.lineNumber,
+        this.level,
+        this.quoteDepth
+      );
+      this.setMarkerNumber(newNumber);
+    }
+  }
+
+  /**
+   * Updates the head of the line in the text editor to match the head of the line in
+   * the EditedParsedLine, along with the remainder if it has been changed. Nothing is
+   * written if neither has changed.
+   *
+   * @param edit The edit object that allows us to modify the text editor
+   */
+  public updateEditorHead(edit: TextEditBuilder): void {
+    if (this.originalParsedLine === undefined) {
+      throw new Error("Original parsed line is undefined");
+    }
+    const lineNumber = this.originalParsedLine.line.lineNumber;
+    if (this.remainder !== this.originalParsedLine.remainder) {
+      edit.replace(
+        createRange(
+          lineNumber,
+          0,
+          lineNumber,
+          this.originalParsedLine.line.text.length
+        ),
+        this.getHead() + this.remainder
+      );
+      return;
+    }
+    if (this.getHead() === this.originalParsedLine.getHead()) {
+      return;
+    }
+    edit.replace(
+      createRange(lineNumber, 0, lineNumber, this.originalParsedLine.getHead().length),
+      this.getHead()
+    );
+  }
+}
+
+/**
+ * Gets the range of lines to look at when guessing the marker styles around a line,
+ * based on the user's `markerInferenceScope` setting. This is either the list the line
+ * is in, the section of the document under the closest heading above it, or the whole
+ * document.
+ *
+ * @param textEditor The text editor
+ * @param lineNumber The line number to get the range for
+ * @returns The first and last line numbers of the range
+ */
+export function getMarkerInferenceRange(
+  textEditor: TextEditor,
+  lineNumber: number
+): { startLine: number; endLine: number } {
+  const document = textEditor.document;
+  const scope = getSetting("markerInferenceScope", document);
+
+  // Lists are ended as described in `getListRange`, and sections by headings
+  if (scope === "list") {
+    return getListRange(textEditor, lineNumber);
+  } else if (scope === "section") {
+    return getListIndex(textEditor).getSectionRange(lineNumber);
+  } else {
+    return { startLine: 0, endLine: document.lineCount - 1 };
+  }
+}
+
+/**
+ * Gets the range of lines making up the list a line is in. Lists are ended by
+ * unindented paragraphs and by going into or out of blockquotes.
+ *
+ * @param textEditor The text editor
+ * @param lineNumber The line number to get the range for
+ * @returns The first and last line numbers of the list
+ */
+export function getListRange(
+  textEditor: TextEditor,
+  lineNumber: number
+): { startLine: number; endLine: number } {
+  return getListIndex(textEditor).getListRange(lineNumber);
+}
+
+/**
+ * Get the marker heads for all indentation levels in the document, up to the given
+ * maximum level. Only the lines in the range given by `getMarkerInferenceRange` are
+ * looked at, and only the list items in the same blockquote as the active line. Each
+ * level takes its marker from the nearest list item at that level at or above the
+ * active line, or failing that from the nearest one below it.
+ *
+ * @param textEditor The text editor
+ * @param maxLevel The maximum level to get marker heads for
+ * @returns An array of marker heads, indexed by indentation level
+ */
+export function getMarkerLevels(textEditor: TextEditor, maxLevel: number): string[] {
+  const activeLineNumber = textEditor.selection.active.line;
+  const { startLine, endLine } = getMarkerInferenceRange(textEditor, activeLineNumber);
+  const quoteDepth = getQuoteDepth(textEditor.document.lineAt(activeLineNumber).text);
+  const listIndex = getListIndex(textEditor);
+
+  var markerLevels: string[] = [];
+  for (let level = 0; level <= maxLevel; level++) {
+    var lineNumber = listIndex.findNearestListItem(
+      activeLineNumber + 1,
+      level,
+      quoteDepth,
+      -1
+    );
+    if (lineNumber === undefined || lineNumber < startLine) {
+      lineNumber = listIndex.findNearestListItem(
+        activeLineNumber,
+        level,
+        quoteDepth,
+        1
+      );
+    }
+    if (lineNumber !== undefined && lineNumber >= startLine && lineNumber <= endLine) {
+      // Get the full marker for the line, including initial spaces after the indentation
+      markerLevels[level] = (
+        listIndex.getParsedLine(lineNumber) as ParsedLine
+      ).getFullMarker();
+    }
+  }
+  return markerLevels;
+}
+
+/**
+ * Determines the full marker for a given level, based on the marker levels in the
+ * document. If the level is not recorded, it will use the default bullets based on the
+ * user's settings, or `-` if there aren't any.
+ *
+ * @param document The document
+ * @param markerLevels The marker levels in the document
+ * @param level The level to get the marker for
+ * @returns The full marker for the given level
+ */
+export function determineFullMarker(
+  document: TextDocument,
+  markerLevels: string[],
+  level: number
+): string {
+  if (level >= markerLevels.length || markerLevels[level] === undefined) {
+    const bullets = getSetting("defaultMarkers", document) as string[];
+    if (bullets.length === 0) {
+      return "-";
+    }
+    return bullets[level % bullets.length];
+  } else {
+    return markerLevels[level];
+  }
+}
+
+/**
+ * Determines the marker number for a given line based on context. If the line is not a
+ * numbered list item, it will throw an error. How the number follows on from the
+ * previous item depends on the user's `orderedListNumbering` setting.
+ *
+ * @param textEditor The text editor
+ * @param lineNumber The line number to get the marker number for
+ * @param indentationLevel The indentation level of the line
+ * @param quoteDepth The number of blockquotes the line is nested in
+ * @returns The marker number determined from context
+ */
+export function determineMarkerNumber(
+  textEditor: TextEditor,
+  lineNumber: number,
+  indentationLevel: number,
+  quoteDepth: number
+): number {
+  // Get the two most recent numbered list items above the current line
+  const previousNumbers = getSiblingNumbers(
+    textEditor,
+    lineNumber,
+    indentationLevel,
+    quoteDepth,
+    -1
+  );
+  if (previousNumbers.length === 0) {
+    return 1;
+  }
+
+  // Compare the previous item with the one before it, or failing that with the item
+  // after the current line
+  const comparedNumber =
+    previousNumbers.length > 1
+      ? previousNumbers[1]
+      : getSiblingNumbers(
+          textEditor,
+          lineNumber - 1,
+          indentationLevel,
+          quoteDepth,
+          1
+        )[0];
+  return isNumberingFixed(textEditor.document, comparedNumber, previousNumbers[0])
+    ? previousNumbers[0]
+    : previousNumbers[0] + 1;
+}
+
+/**
+ * Gets the numbers of the nearest two numbered list items at a level, looking either
+ * up or down from a line and stopping at the end of the list.
+ *
+ * @param textEditor The text editor
+ * @param lineNumber The line number to start from, which isn't included
+ * @param indentationLevel The level of the list items
+ * @param quoteDepth The number of blockquotes the list is nested in
+ * @param direction -1 to look up the document and 1 to look down it
+ * @returns The numbers of the list items, nearest first
+ */
+function getSiblingNumbers(
+  textEditor: TextEditor,
+  lineNumber: number,
+  indentationLevel: number,
+  quoteDepth: number,
+  direction: -1 | 1
+): number[] {
+  return getListIndex(textEditor).getSiblingNumbers(
+    lineNumber,
+    indentationLevel,
+    quoteDepth,
+    direction
+  );
+}
+
+/**
+ * Determines whether the numbers in a list stay the same from one item to the next,
+ * rather than counting up, based on the user's `orderedListNumbering` setting. In
+ * `auto` mode, a list is fixed when two items next to each other have the same number.
+ *
+ * @param document The document the list is in
+ * @param firstNumber The number of one item in the list, if there is one
+ * @param secondNumber The number of the item after it, if there is one
+ * @returns Whether every item in the list should have the same number
+ */
+export function isNumberingFixed(
+  document: TextDocument,
+  firstNumber: number | undefined,
+  secondNumber: number | undefined
+): boolean {
+  const numbering = getSetting("orderedListNumbering", document) as string;
+  if (numbering === "fixed") {
+    return true;
+  }
+  if (numbering === "sequential") {
+    return false;
+  }
+  return firstNumber !== undefined && firstNumber === secondNumber;
+}
@@ -0,0 +1,192 @@
+import { getIndentationWidth, getQuoteDepth, isBlankLine } from "./blockquote";
+import { NotAListItemError, ParsedLine, getListRange } from "./listItem";
+import {
+  ListItemBlock,
+  getEnclosingListItemBlock,
+  getListItemDescendants,
+  getParentListItemBlock,
+} from "./listStructure";
+import {
+  Position,
+  Range,
+  TextDocument,
+  TextEditor,
+  comparePositions,
+  createRange,
+} from "./textDocument";
+
+/**
+ * A list item which is open while looking for folding ranges.
+ *
+ * @property parsedLine The list item
+ * @property endLine The line number of the last line nested under it so far
+ */
+interface OpenItem {
+  parsedLine: ParsedLine;
+  endLine: number;
+}
+
+/**
+ * Gets the ranges of lines which can be folded: each list item with anything nested
+ * under it, from the list item line to the last line nested under it. What is nested
+ * under a list item is worked out in the same way as `getListItemDescendants`, in a
+ * single pass over the document.
+ *
+ * @param textEditor The text editor
+ * @returns The first and last line numbers of each folding range, in order
+ */
+export function getListFoldingRanges(
+  textEditor: TextEditor
+): { startLine: number; endLine: number }[] {
+  const document = textEditor.document;
+  const tabSize = textEditor.options.tabSize as number;
+  const foldingRanges: { startLine: number; endLine: number }[] = [];
+  const openItems: OpenItem[] = [];
+  const closeItems = (isClosed: (openItem: OpenItem) => boolean): void => {
+    while (openItems.length > 0 && isClosed(openItems[openItems.length - 1])) {
+      const openItem = openItems.pop() as OpenItem;
+      const startLine = openItem.parsedLine.line.lineNumber;
+      if (openItem.endLine > startLine) {
+        foldingRanges.push({ startLine: startLine, endLine: openItem.endLine });
+      }
+    }
+  };
+
+  for (let lineNumber = 0; lineNumber < document.lineCount; lineNumber++) {
+    const line = document.lineAt(lineNumber);
+    if (isBlankLine(line.text)) {
+      continue;
+    }
+    const quoteDepth = getQuoteDepth(line.text);
+    try {
+      const parsedLine = new ParsedLine(line, textEditor);
+      closeItems(
+        (openItem) =>
+          openItem.parsedLine.quoteDepth !== quoteDepth ||
+          openItem.parsedLine.level >= parsedLine.level
+      );
+      openItems.push({ parsedLine: parsedLine, endLine: lineNumber });
+    } catch (e) {
+      if (!(e instanceof NotAListItemError)) {
+        throw e;
+      }
+      const indentation = getIndentationWidth(line.text, tabSize);
+      closeItems(
+        (openItem) =>
+          openItem.parsedLine.quoteDepth !== quoteDepth ||
+          indentation <= openItem.parsedLine.initialSpacingAsSpaces.length
+      );
+    }
+    for (const openItem of openItems) {
+      openItem.endLine = lineNumber;
+    }
+  }
+  closeItems(() => true);
+  return foldingRanges.sort((a, b) => a.startLine - b.startLine);
+}
+
+/**
+ * Gets the range of the lines from one line to another, from the start of the first to
+ * the end of the last.
+ *
+ * @param document The document
+ * @param startLine The first line number
+ * @param endLine The last line number
+ * @returns The range of the lines
+ */
+function getLinesRange(
+  document: TextDocument,
+  startLine: number,
+  endLine: number
+): Range {
+  return createRange(startLine, 0, endLine, document.lineAt(endLine).text.length);
+}
+
+/**
+ * Gets the range of a list item's own lines: the list item line and its continuation
+ * paragraphs, up to the first list item nested under it.
+ *
+ * @param textEditor The text editor
+ * @param block The block of the list item
+ * @returns The range of the list item
+ */
+function getOwnLinesRange(textEditor: TextEditor, block: ListItemBlock): Range {
+  const descendants = getListItemDescendants(textEditor, block.parsedLine);
+  const firstChildLine = descendants.listItems[0]?.line.lineNumber ?? Infinity;
+  var endLine = block.startLine;
+  for (const line of descendants.continuationLines) {
+    if (line.lineNumber < firstChildLine) {
+      endLine = Math.max(endLine, line.lineNumber);
+    }
+  }
+  return getLinesRange(textEditor.document, block.startLine, endLine);
+}
+
+/**
+ * Gets the ranges Expand Selection steps out through from a position in a list: from
+ * the text of the list item at the position, to the whole list item, to the list item
+ * with everything nested under it, to each of the list items it is nested under, and
+ * finally to the whole list.
+ *
+ * @param textEditor The text editor
+ * @param position The position to expand the selection from
+ * @returns The ranges from the outside in, leaving out any which are the same as the
+ * range around them, or undefined if the position isn't in a list
+ */
+export function getListSelectionRanges(
+  textEditor: TextEditor,
+  position: Position
+): Range[] | undefined {
+  const document = textEditor.document;
+  const block = getEnclosingListItemBlock(textEditor, position.line);
+  if (block === undefined) {
+    return undefined;
+  }
+
+  const blocks = [block];
+  var parent = getParentListItemBlock(textEditor, block);
+  while (parent !== undefined) {
+    blocks.unshift(parent);
+    parent = getParentListItemBlock(textEditor, parent);
+  }
+  const { startLine, endLine } = getListRange(textEditor, blocks[0].startLine);
+  var listStartLine = startLine;
+  while (isBlankLine(document.lineAt(listStartLine).text)) {
+    listStartLine++;
+  }
+  var listEndLine = endLine;
+  while (isBlankLine(document.lineAt(listEndLine).text)) {
+    listEndLine--;
+  }
+
+  const ranges = [
+    getLinesRange(document, listStartLine, listEndLine),
+    ...blocks.map((currentBlock) =>
+      getLinesRange(document, currentBlock.startLine, currentBlock.endLine)
+    ),
+  ];
+  const ownLinesRange = getOwnLinesRange(textEditor, block);
+  if (ownLinesRange.end.line >= position.line) {
+    ranges.push(ownLinesRange);
+  }
+  if (
+    position.line === block.startLine &&
+    position.character >= block.parsedLine.getHead().length
+  ) {
+    const line = document.lineAt(block.startLine);
+    ranges.push(
+      createRange(
+        block.startLine,
+        block.parsedLine.getHead().length,
+        block.startLine,
+        line.text.length
+      )
+    );
+  }
+  return ranges.filter(
+    (range, index) =>
+      index === 0 ||
+      comparePositions(range.start, ranges[index - 1].start) !== 0 ||
+      comparePositions(range.end, ranges[index - 1].end) !== 0
+  );
+}
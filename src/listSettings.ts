@@ -0,0 +1,184 @@
+import { getFrontMatterSettings } from "./frontMatter";
+import { TextDocument } from "./textDocument";
+
+/**
+ * Gets the value of one of the `markdown-clever-lists` settings for a document, or
+ * undefined to use the default value. The list logic reads its settings through a
+ * settings provider so that it doesn't depend on VS Code: the extension sets one which
+ * reads `.markdownlistsrc` files and the user's settings, and anything else can set its
+ * own.
+ *
+ * @param key The name of the setting, without the `markdown-clever-lists.` prefix
+ * @param document The document the setting is read for
+ * @returns The value of the setting
+ */
+export type SettingsProvider = (key: string, document: TextDocument) => unknown;
+
+/**
+ * The default values of the settings the list logic reads, which are the same as the
+ * defaults in `package.json`.
+ */
+export const defaultSettings: { [key: string]: unknown } = {
+  backspaceBehaviour: "Outdent",
+  blankListItemBehaviour: "Outdent",
+  defaultMarkers: ["-"],
+  orderedListNumbering: "auto",
+  markerInferenceScope: "list",
+  propagateTaskCompletion: false,
+  indentationMode: "tabSize",
+  normalizeBullets: "dominant",
+  formatBullets: true,
+  formatIndentation: true,
+  formatMarkerSpacing: true,
+  formatNumbering: true,
+  lintMixedMarkers: true,
+  lintNumbering: true,
+  lintIndentation: true,
+  lintMixedIndentation: true,
+  lintCheckboxSyntax: true,
+  wrapColumn: 80,
+  wrapOnType: false,
+};
+
+/**
+ * The values the settings the list logic reads are allowed to take, beyond their type,
+ * which are the same as the constraints in `package.json`.
+ */
+const settingConstraints: { [key: string]: { enum?: string[]; minimum?: number } } = {
+  backspaceBehaviour: { enum: ["Outdent", "Continuation Line", "Remove Marker"] },
+  blankListItemBehaviour: { enum: ["Outdent", "Remove List Item"] },
+  orderedListNumbering: { enum: ["auto", "sequential", "fixed"] },
+  markerInferenceScope: { enum: ["list", "section", "document"] },
+  indentationMode: { enum: ["tabSize", "contentColumn"] },
+  normalizeBullets: { enum: ["dominant", "defaultMarkers"] },
+  wrapColumn: { minimum: 1 },
+};
+
+/**
+ * Shorter names for settings which can be used in front matter and `.markdownlistsrc`
+ * files, keyed by the name of the setting.
+ */
+export const settingAliases: { [key: string]: string[] } = {
+  defaultMarkers: ["markers"],
+};
+
+var settingsProvider: SettingsProvider = () => undefined;
+
+/**
+ * Sets where the list logic reads its settings from.
+ *
+ * @param provider The settings provider
+ */
+export function setSettingsProvider(provider: SettingsProvider): void {
+  settingsProvider = provider;
+}
+
+/**
+ * Gets the settings provider the list logic reads its settings from.
+ *
+ * @returns The settings provider
+ */
+export function getSettingsProvider(): SettingsProvider {
+  return settingsProvider;
+}
+
+/**
+ * Reads a setting from an object of settings written by the user, such as the front
+ * matter of a document or a section of a `.markdownlistsrc` file. The setting can be
+ * given by its name, with or without the `markdown-clever-lists.` prefix, or by one of
+ * its aliases. Values of the wrong type, and values which `package.json` doesn't allow,
+ * such as a string which isn't one of the choices for the setting, are ignored.
+ *
+ * @param settings The settings
+ * @param key The name of the setting, without the `markdown-clever-lists.` prefix
+ * @returns The value of the setting, or undefined if it isn't given
+ */
+export function readSetting(
+  settings: { [key: string]: unknown },
+  key: string
+): unknown {
+  const names = [key, `markdown-clever-lists.${key}`, ...(settingAliases[key] ?? [])];
+  const defaultValue = defaultSettings[key];
+  for (const name of names) {
+    const value = settings[name];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (Array.isArray(defaultValue)) {
+      if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+        return value;
+      }
+    } else if (
+      defaultValue === undefined ||
+      (typeof value === typeof defaultValue && isAllowedValue(key, value))
+    ) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks whether a value of the right type is one a setting is allowed to take.
+ *
+ * @param key The name of the setting, without the `markdown-clever-lists.` prefix
+ * @param value The value
+ * @returns Whether the value is allowed
+ */
+function isAllowedValue(key: string, value: unknown): boolean {
+  const constraints = settingConstraints[key];
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    return false;
+  }
+  if (constraints === undefined) {
+    return true;
+  }
+  if (constraints.enum !== undefined && !constraints.enum.includes(value as string)) {
+    return false;
+  }
+  if (constraints.minimum !== undefined && (value as number) < constraints.minimum) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * The documents which take their settings from another document, such as documents
+ * made to parse pasted text as if it were in the document it's pasted into.
+ */
+const settingsDocuments = new WeakMap<TextDocument, TextDocument>();
+
+/**
+ * Makes a document take its settings from another document.
+ *
+ * @param document The document
+ * @param settingsDocument The document to take the settings from
+ */
+export function shareSettings(
+  document: TextDocument,
+  settingsDocument: TextDocument
+): void {
+  settingsDocuments.set(document, settingsDocument);
+}
+
+/**
+ * Gets the value of a setting for a document. Settings are looked up in layers, and
+ * the first layer which gives the setting wins:
+ *
+ * 1. The `clever-lists` key in the document's front matter
+ * 2. The settings provider, which in VS Code reads the sections of the workspace
+ *    folder's `.markdownlistsrc` file matching the document, then the user's settings
+ * 3. The default value
+ *
+ * @param key The name of the setting, without the `markdown-clever-lists.` prefix
+ * @param document The document to get the setting for
+ * @returns The value of the setting
+ */
+export function getSetting(key: string, document: TextDocument): unknown {
+  document = settingsDocuments.get(document) ?? document;
+  return (
+    readSetting(getFrontMatterSettings(document), key) ??
+    settingsProvider(key, document) ??
+    defaultSettings[key]
+  );
+}
@@ -0,0 +1,243 @@
+import { getIndentationWidth, isBlankLine } from "./blockquote";
+import { ParsedLine } from "./listItem";
+import { getListIndex } from "./listIndex";
+import { TextEditor, TextLine } from "./textDocument";
+
+/**
+ * The lines nested under a list item.
+ *
+ * @property listItems The list items nested under the item, at any depth
+ * @property continuationLines The lines which are not list items, such as continuation
+ * paragraphs, not including blank lines
+ */
+export interface ListItemDescendants {
+  listItems: ParsedLine[];
+  continuationLines: TextLine[];
+}
+
+/**
+ * Gets the lines nested under a list item. These are the deeper list items and the
+ * indented paragraphs which follow it, up to the next list item at the same level or
+ * lower, the next unindented paragraph or the end of the blockquote the list item is
+ * in.
+ *
+ * @param textEditor The text editor
+ * @param parsedLine The list item to get the descendants of
+ * @returns The descendants of the list item
+ */
+export function getListItemDescendants(
+  textEditor: TextEditor,
+  parsedLine: ParsedLine
+): ListItemDescendants {
+  const tabSize = textEditor.options.tabSize as number;
+  const listIndex = getListIndex(textEditor);
+  const descendants: ListItemDescendants = { listItems: [], continuationLines: [] };
+  const startLine = parsedLine.line.lineNumber;
+
+  // The descendants end before the next list item at the same level or lower, or the
+  // end of the list
+  const nextListItem = listIndex.findNearestListItemUpToLevel(
+    startLine,
+    parsedLine.level,
+    parsedLine.quoteDepth,
+    1
+  );
+  var endLine = listIndex.getListRange(startLine).endLine;
+  if (nextListItem !== undefined) {
+    endLine = Math.min(endLine, nextListItem - 1);
+  }
+  for (var lineNumber = startLine + 1; lineNumber <= endLine; lineNumber++) {
+    const currentParsedLine = listIndex.getParsedLine(lineNumber);
+    if (currentParsedLine !== undefined) {
+      descendants.listItems.push(currentParsedLine);
+      continue;
+    }
+    const line = textEditor.document.lineAt(lineNumber);
+    if (isBlankLine(line.text)) {
+      continue;
+    }
+    const indentation = getIndentationWidth(line.text, tabSize);
+    if (indentation <= parsedLine.initialSpacingAsSpaces.length) {
+      break;
+    }
+    descendants.continuationLines.push(line);
+  }
+  return descendants;
+}
+
+/**
+ * A list item together with everything nested under it, as a range of lines.
+ *
+ * @property parsedLine The list item
+ * @property startLine The line number of the list item
+ * @property endLine The line number of the last line nested under the list item, or of
+ * the list item itself if nothing is nested under it
+ */
+export interface ListItemBlock {
+  parsedLine: ParsedLine;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Gets the block of lines made up of a list item and everything nested under it.
+ *
+ * @param textEditor The text editor
+ * @param parsedLine The list item
+ * @returns The block of lines for the list item
+ */
+export function getListItemBlock(
+  textEditor: TextEditor,
+  parsedLine: ParsedLine
+): ListItemBlock {
+  const descendants = getListItemDescendants(textEditor, parsedLine);
+  var endLine = parsedLine.line.lineNumber;
+  for (const listItem of descendants.listItems) {
+    endLine = Math.max(endLine, listItem.line.lineNumber);
+  }
+  for (const line of descendants.continuationLines) {
+    endLine = Math.max(endLine, line.lineNumber);
+  }
+  return {
+    parsedLine: parsedLine,
+    startLine: parsedLine.line.lineNumber,
+    endLine: endLine,
+  };
+}
+
+/**
+ * Gets the list item which a line belongs to. This is the list item on the line itself,
+ * or otherwise the innermost list item which the line is nested under.
+ *
+ * @param textEditor The text editor
+ * @param lineNumber The line number
+ * @returns The block of the list item the line belongs to, or undefined if it is not
+ * part of a list item
+ */
+export function getEnclosingListItemBlock(
+  textEditor: TextEditor,
+  lineNumber: number
+): ListItemBlock | undefined {
+  const listIndex = getListIndex(textEditor);
+  var parsedLine = listIndex.getParsedLine(lineNumber);
+  if (parsedLine === undefined) {
+    // Lines are only nested under the list items since the last unindented paragraph
+    const line = textEditor.document.lineAt(lineNumber);
+    const tabSize = textEditor.options.tabSize as number;
+    if (!isBlankLine(line.text) && getIndentationWidth(line.text, tabSize) === 0) {
+      return undefined;
+    }
+    const listItem = listIndex.findNearestAnyListItem(lineNumber, -1);
+    const listEnd = listIndex.findNearestListEnd(lineNumber, -1);
+    if (listItem === undefined || (listEnd !== undefined && listItem < listEnd)) {
+      return undefined;
+    }
+    parsedLine = listIndex.getParsedLine(listItem) as ParsedLine;
+  }
+  while (parsedLine !== undefined) {
+    const block = getListItemBlock(textEditor, parsedLine);
+    if (block.endLine >= lineNumber) {
+      return block;
+    }
+    // The list items at the same level or deeper above this one and the ones in other
+    // blockquotes end before it, so only a list item at a lower level can be the one
+    const parent = listIndex.findNearestListItemUpToLevel(
+      block.startLine,
+      parsedLine.level - 1,
+      parsedLine.quoteDepth,
+      -1
+    );
+    parsedLine =
+      parent !== undefined &&
+      parent >= listIndex.getListRange(block.startLine).startLine
+        ? listIndex.getParsedLine(parent)
+        : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Gets the previous list item at the same level in the same list as a given list item.
+ *
+ * @param textEditor The text editor
+ * @param parsedLine The list item
+ * @returns The previous sibling, or undefined if the list item is the first in its list
+ */
+export function getPreviousSibling(
+  textEditor: TextEditor,
+  parsedLine: ParsedLine
+): ParsedLine | undefined {
+  const listIndex = getListIndex(textEditor);
+  const lineNumber = parsedLine.line.lineNumber;
+
+  // The nearest list item at the same level or lower is the previous sibling if it is
+  // at the same level and in the same list
+  const listItem = listIndex.findNearestListItemUpToLevel(
+    lineNumber,
+    parsedLine.level,
+    parsedLine.quoteDepth,
+    -1
+  );
+  if (
+    listItem === undefined ||
+    listItem < listIndex.getListRange(lineNumber).startLine
+  ) {
+    return undefined;
+  }
+  const previousSibling = listIndex.getParsedLine(listItem) as ParsedLine;
+  return previousSibling.level === parsedLine.level ? previousSibling : undefined;
+}
+
+/**
+ * Gets the next list item at the same level in the same list as a given list item.
+ *
+ * @param textEditor The text editor
+ * @param block The block of the list item
+ * @returns The next sibling, or undefined if the list item is the last in its list
+ */
+export function getNextSibling(
+  textEditor: TextEditor,
+  block: ListItemBlock
+): ParsedLine | undefined {
+  const listIndex = getListIndex(textEditor);
+  const lineNumber = listIndex.findNearestNonBlankLine(block.endLine, 1);
+  if (lineNumber === undefined) {
+    return undefined;
+  }
+  const nextSibling = listIndex.getParsedLine(lineNumber);
+  if (
+    nextSibling === undefined ||
+    nextSibling.quoteDepth !== block.parsedLine.quoteDepth ||
+    nextSibling.level !== block.parsedLine.level
+  ) {
+    return undefined;
+  }
+  return nextSibling;
+}
+
+/**
+ * Gets the list item which a list item is nested under.
+ *
+ * @param textEditor The text editor
+ * @param block The block of the list item
+ * @returns The block of the parent list item, or undefined if the list item isn't
+ * nested
+ */
+export function getParentListItemBlock(
+  textEditor: TextEditor,
+  block: ListItemBlock
+): ListItemBlock | undefined {
+  // Go up past the previous siblings and their descendants until reaching a list item
+  // whose block contains this one
+  var candidate =
+    block.startLine > 0
+      ? getEnclosingListItemBlock(textEditor, block.startLine - 1)
+      : undefined;
+  while (candidate !== undefined && candidate.endLine < block.startLine) {
+    candidate =
+      candidate.startLine > 0
+        ? getEnclosingListItemBlock(textEditor, candidate.startLine - 1)
+        : undefined;
+  }
+  return candidate;
+}
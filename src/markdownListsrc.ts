@@ -0,0 +1,143 @@
+import { readSetting } from "./listSettings";
+
+/**
+ * The name of the file in the root of a workspace folder which holds list settings for
+ * the documents in it.
+ */
+export const markdownListsrcFileName = ".markdownlistsrc";
+
+/**
+ * Thrown when a `.markdownlistsrc` file isn't a JSON object of settings objects.
+ */
+export class MarkdownListsrcSyntaxError extends Error {}
+
+/**
+ * A section of a `.markdownlistsrc` file, holding the settings for the documents which
+ * match a glob.
+ *
+ * @property glob The glob, relative to the folder the file is in
+ * @property pattern The regular expression the glob matches paths with
+ * @property settings The settings, keyed as they are in the file
+ */
+export interface MarkdownListsrcSection {
+  glob: string;
+  pattern: RegExp;
+  settings: { [key: string]: unknown };
+}
+
+/**
+ * Converts a glob into a regular expression which matches paths. `*` matches anything
+ * but `/`, `**` matches any number of folders, `?` matches one character other than `/`,
+ * `{a,b}` matches either alternative and `[...]` matches a character class. Globs
+ * without a `/` match file names in any folder, as in `.gitignore`.
+ *
+ * @param glob The glob
+ * @returns The regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  if (!glob.includes("/")) {
+    glob = "**/" + glob;
+  }
+  glob = glob.replace(/^\//, "");
+  var source = "";
+  var braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const character = glob[i];
+    if (character === "*" && glob[i + 1] === "*") {
+      // `**/` matches no folders or any number of them, and a trailing `**` matches
+      // anything at all
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (character === "*") {
+      source += "[^/]*";
+    } else if (character === "?") {
+      source += "[^/]";
+    } else if (character === "{") {
+      source += "(?:";
+      braceDepth++;
+    } else if (character === "}" && braceDepth > 0) {
+      source += ")";
+      braceDepth--;
+    } else if (character === "," && braceDepth > 0) {
+      source += "|";
+    } else if (character === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        source += "[" + glob.substring(i + 1, end).replace(/^!/, "^") + "]";
+        i = end;
+      }
+    } else {
+      source += character.replace(/[.+^$()|\\\]}]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Parses a `.markdownlistsrc` file. The file is a JSON object whose keys are globs and
+ * whose values are the settings for the documents matching them, for example:
+ *
+ * ```json
+ * {
+ *   "*.md": { "markers": ["-"] },
+ *   "wiki/**": { "markers": ["*", "-"] },
+ *   "release-notes/**": { "markers": ["1.", "-"] }
+ * }
+ * ```
+ *
+ * @param text The text of the file
+ * @returns The sections of the file, in the order they appear
+ */
+export function parseMarkdownListsrc(text: string): MarkdownListsrcSection[] {
+  var parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new MarkdownListsrcSyntaxError(`${markdownListsrcFileName}: ${e}`);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new MarkdownListsrcSyntaxError(
+      `${markdownListsrcFileName} should be an object keyed by globs`
+    );
+  }
+  return Object.entries(parsed).map(([glob, settings]) => {
+    if (typeof settings !== "object" || settings === null || Array.isArray(settings)) {
+      throw new MarkdownListsrcSyntaxError(
+        `${markdownListsrcFileName}: the settings for ${glob} should be an object`
+      );
+    }
+    return { glob: glob, pattern: globToRegExp(glob), settings: settings };
+  });
+}
+
+/**
+ * Gets a setting for a document from the sections of a `.markdownlistsrc` file. When
+ * several sections match the document, the last one which has the setting wins. See
+ * `readSetting`.
+ *
+ * @param sections The sections of the file
+ * @param relativePath The path of the document relative to the folder the file is in,
+ * with `/` between folders
+ * @param key The name of the setting, without the `markdown-clever-lists.` prefix
+ * @returns The value of the setting, or undefined if no matching section has it
+ */
+export function getMarkdownListsrcSetting(
+  sections: MarkdownListsrcSection[],
+  relativePath: string,
+  key: string
+): unknown {
+  var value: unknown = undefined;
+  for (const section of sections) {
+    if (section.pattern.test(relativePath)) {
+      value = readSetting(section.settings, key) ?? value;
+    }
+  }
+  return value;
+}
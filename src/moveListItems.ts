@@ -0,0 +1,255 @@
+import { EditedParsedLine, ParsedLine } from "./listItem";
+import {
+  ListItemBlock,
+  getEnclosingListItemBlock,
+  getListItemBlock,
+  getNextSibling,
+  getPreviousSibling,
+} from "./listStructure";
+import {
+  Position,
+  TextEdit,
+  TextEditor,
+  TextEditsWithSelections,
+  createPosition,
+  createRange,
+  createSelection,
+  getLineBreak,
+} from "./textDocument";
+
+/**
+ * A run of sibling list items which are moved together past a neighbouring sibling.
+ *
+ * @property blocks The blocks of the list items being moved, in order
+ * @property sibling The block of the sibling they are moved past
+ */
+interface ListItemMove {
+  blocks: ListItemBlock[];
+  sibling: ListItemBlock;
+}
+
+/**
+ * Gets the runs of sibling list items covered by the selections. Each selection covers
+ * the list item its start is in, along with the following siblings which start inside
+ * the selection. Runs which overlap or follow on from each other are merged, and runs
+ * nested inside other runs are dropped, since they move anyway.
+ *
+ * @param textEditor The text editor
+ * @returns The runs of list item blocks, in document order
+ */
+function getSelectedListItemRuns(textEditor: TextEditor): ListItemBlock[][] {
+  var runs: ListItemBlock[][] = [];
+  for (const selection of textEditor.selections) {
+    const firstBlock = getEnclosingListItemBlock(textEditor, selection.start.line);
+    if (firstBlock === undefined) {
+      continue;
+    }
+    const run = [firstBlock];
+    while (true) {
+      const nextSibling = getNextSibling(textEditor, run[run.length - 1]);
+      if (
+        nextSibling === undefined ||
+        nextSibling.line.lineNumber > selection.end.line
+      ) {
+        break;
+      }
+      run.push(getListItemBlock(textEditor, nextSibling));
+    }
+    runs.push(run);
+  }
+  runs.sort((a, b) => a[0].startLine - b[0].startLine);
+
+  const mergedRuns: ListItemBlock[][] = [];
+  for (const run of runs) {
+    const previousRun = mergedRuns[mergedRuns.length - 1];
+    if (previousRun === undefined) {
+      mergedRuns.push(run);
+      continue;
+    }
+    const previousBlock = previousRun[previousRun.length - 1];
+    if (run[0].startLine > previousBlock.endLine) {
+      // Runs of siblings which follow on from each other are moved together
+      const nextSibling = getNextSibling(textEditor, previousBlock);
+      if (
+        nextSibling !== undefined &&
+        nextSibling.line.lineNumber === run[0].startLine &&
+        run[0].parsedLine.level === previousBlock.parsedLine.level
+      ) {
+        previousRun.push(...run);
+      } else {
+        mergedRuns.push(run);
+      }
+    } else if (run[0].parsedLine.level === previousRun[0].parsedLine.level) {
+      // Overlapping runs of the same siblings
+      for (const block of run) {
+        if (block.startLine > previousBlock.endLine) {
+          previousRun.push(block);
+        }
+      }
+    }
+  }
+  return mergedRuns;
+}
+
+/**
+ * Renumbers a list of sibling list items which are being reordered, so that they take
+ * the numbers of the positions they move to. Nothing is renumbered unless they are all
+ * numbered with the same delimiter and numbering style.
+ *
+ * @param originalOrder The list items in their original order
+ * @param newOrder The same list items in their new order
+ * @returns The new text of each list item line, indexed by line number
+ */
+export function renumberReorderedItems(
+  originalOrder: ParsedLine[],
+  newOrder: ParsedLine[]
+): Map<number, string> {
+  const newLines = new Map<number, string>();
+  for (const parsedLine of originalOrder) {
+    if (
+      !parsedLine.markerIsNumber ||
+      parsedLine.markerDelimiter !== originalOrder[0].markerDelimiter ||
+      parsedLine.markerNumberingStyle !== originalOrder[0].markerNumberingStyle
+    ) {
+      return newLines;
+    }
+  }
+  for (let i = 0; i < newOrder.length; i++) {
+    const editedParsedLine = EditedParsedLine.fromParsedLine(newOrder[i]);
+    editedParsedLine.setMarkerNumber(originalOrder[i].markerNumber as number);
+    newLines.set(
+      newOrder[i].line.lineNumber,
+      editedParsedLine.getHead() + editedParsedLine.remainder
+    );
+  }
+  return newLines;
+}
+
+/**
+ * Works out how to move the list items under the cursors up or down past their
+ * neighbouring sibling, along with everything nested under them. List items are never
+ * moved out of their parent, so the first item in a list can't be moved up and the
+ * last can't be moved down. Ordered lists are renumbered to match the new order. Works
+ * with multiple cursors.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @param direction The direction to move the list items in
+ * @returns The text edits to make and where the selections go, or undefined to move
+ * the lines as normal if no cursor is on a list item
+ */
+export function getMoveItemEdits(
+  textEditor: TextEditor,
+  direction: "up" | "down"
+): TextEditsWithSelections | undefined {
+  const runs = getSelectedListItemRuns(textEditor);
+  if (runs.length === 0) {
+    return undefined;
+  }
+
+  // Work out which sibling each run of list items moves past
+  const moves: ListItemMove[] = [];
+  for (const run of runs) {
+    var sibling;
+    if (direction === "up") {
+      sibling = getPreviousSibling(textEditor, run[0].parsedLine);
+    } else {
+      sibling = getNextSibling(textEditor, run[run.length - 1]);
+    }
+    if (sibling === undefined) {
+      continue;
+    }
+    const move = { blocks: run, sibling: getListItemBlock(textEditor, sibling) };
+    const previousMove = moves[moves.length - 1];
+    if (
+      previousMove !== undefined &&
+      Math.min(move.blocks[0].startLine, move.sibling.startLine) <=
+        Math.max(
+          previousMove.blocks[previousMove.blocks.length - 1].endLine,
+          previousMove.sibling.endLine
+        )
+    ) {
+      continue;
+    }
+    moves.push(move);
+  }
+
+  // Swap each run with its sibling, keeping the blank lines between them where they are
+  const document = textEditor.document;
+  const lineBreak = getLineBreak(document);
+  const textEdits: TextEdit[] = [];
+  const lineShifts: { startLine: number; endLine: number; shift: number }[] = [];
+  for (const move of moves) {
+    const runStartLine = move.blocks[0].startLine;
+    const runEndLine = move.blocks[move.blocks.length - 1].endLine;
+    const [first, second] =
+      direction === "up"
+        ? [move.sibling, { startLine: runStartLine, endLine: runEndLine }]
+        : [{ startLine: runStartLine, endLine: runEndLine }, move.sibling];
+
+    const listItems = move.blocks.map((block) => block.parsedLine);
+    const renumberedLines =
+      direction === "up"
+        ? renumberReorderedItems(
+            [move.sibling.parsedLine, ...listItems],
+            [...listItems, move.sibling.parsedLine]
+          )
+        : renumberReorderedItems(
+            [...listItems, move.sibling.parsedLine],
+            [move.sibling.parsedLine, ...listItems]
+          );
+    const getLines = (startLine: number, endLine: number): string[] => {
+      const lines = [];
+      for (let i = startLine; i <= endLine; i++) {
+        lines.push(renumberedLines.get(i) ?? document.lineAt(i).text);
+      }
+      return lines;
+    };
+
+    const newLines = [
+      ...getLines(second.startLine, second.endLine),
+      ...getLines(first.endLine + 1, second.startLine - 1),
+      ...getLines(first.startLine, first.endLine),
+    ];
+    textEdits.push({
+      range: createRange(
+        first.startLine,
+        0,
+        second.endLine,
+        document.lineAt(second.endLine).text.length
+      ),
+      newText: newLines.join(lineBreak),
+    });
+
+    const firstLength = first.endLine - first.startLine + 1;
+    const secondLength = second.endLine - second.startLine + 1;
+    const gapLength = second.startLine - first.endLine - 1;
+    lineShifts.push(
+      {
+        startLine: first.startLine,
+        endLine: first.endLine,
+        shift: secondLength + gapLength,
+      },
+      {
+        startLine: second.startLine,
+        endLine: second.endLine,
+        shift: -(firstLength + gapLength),
+      }
+    );
+  }
+
+  // Keep the selections on the list items they were on
+  const shiftPosition = (position: Position): Position => {
+    for (const lineShift of lineShifts) {
+      if (position.line >= lineShift.startLine && position.line <= lineShift.endLine) {
+        return createPosition(position.line + lineShift.shift, position.character);
+      }
+    }
+    return position;
+  };
+  return {
+    textEdits: textEdits,
+    selections: textEditor.selections.map((selection) =>
+      createSelection(shiftPosition(selection.anchor), shiftPosition(selection.active))
+    ),
+  };
+}
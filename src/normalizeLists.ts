@@ -0,0 +1,273 @@
+import { getIndentationWidth, getQuoteDepth, isBlankLine } from "./blockquote";
+import { ListEdit } from "./listEdit";
+import {
+  NotAListItemError,
+  ParsedLine,
+  createIndentationOfWidth,
+  getContentColumnLevel,
+  usesContentColumns,
+} from "./listItem";
+import { getSetting } from "./listSettings";
+import { TextEdit, TextEditor } from "./textDocument";
+
+/**
+ * A list item which is open while normalizing, so that the lines after it can be
+ * nested under it.
+ *
+ * @property level The level of the list item
+ * @property originalContentColumn The column the content of the list item started at
+ * before normalizing
+ * @property contentColumn The column the content of the list item starts at after
+ * normalizing
+ */
+interface OpenItem {
+  level: number;
+  originalContentColumn: number;
+  contentColumn: number;
+}
+
+/**
+ * Which normalizations to apply to lists. Renumbering is left to the `ListEdit`.
+ *
+ * @property bullets Whether to give every unordered list item at a level the same bullet
+ * @property indentation Whether to indent each level consistently
+ * @property markerSpacing Whether to leave a single space after each marker
+ */
+export interface NormalizeOptions {
+  bullets: boolean;
+  indentation: boolean;
+  markerSpacing: boolean;
+}
+
+/**
+ * Gets the ranges of lines to normalize, which are the lines covered by the selections,
+ * or the whole document if nothing is selected. A selection which ends at the start of
+ * a line doesn't cover that line.
+ *
+ * @param textEditor The text editor
+ * @returns The first and last line numbers of each range
+ */
+function getSelectedRanges(
+  textEditor: TextEditor
+): { startLine: number; endLine: number }[] {
+  const selections = textEditor.selections.filter((selection) => !selection.isEmpty);
+  if (selections.length === 0) {
+    return [{ startLine: 0, endLine: textEditor.document.lineCount - 1 }];
+  }
+  return selections.map((selection) => {
+    var endLine = selection.end.line;
+    if (endLine > selection.start.line && selection.end.character === 0) {
+      endLine--;
+    }
+    return { startLine: selection.start.line, endLine: endLine };
+  });
+}
+
+/**
+ * Gets the list items in some ranges of lines, each one only once and in order.
+ *
+ * @param textEditor The text editor
+ * @param ranges The ranges of lines to look in
+ * @returns The list items, indexed by line number
+ */
+function getListItemsInRanges(
+  textEditor: TextEditor,
+  ranges: { startLine: number; endLine: number }[]
+): Map<number, ParsedLine> {
+  const listItems = new Map<number, ParsedLine>();
+  for (const { startLine, endLine } of ranges) {
+    for (let lineNumber = startLine; lineNumber <= endLine; lineNumber++) {
+      if (listItems.has(lineNumber)) {
+        continue;
+      }
+      try {
+        listItems.set(
+          lineNumber,
+          new ParsedLine(textEditor.document.lineAt(lineNumber), textEditor)
+        );
+      } catch (e) {
+        if (e instanceof NotAListItemError) {
+          continue;
+        }
+        throw e;
+      }
+    }
+  }
+  return new Map([...listItems.entries()].sort(([a], [b]) => a - b));
+}
+
+/**
+ * Chooses the bullet to use for the unordered list items at each level. Depending on
+ * the user's `normalizeBullets` setting, this is either the bullet used most at that
+ * level, or the bullet in `defaultMarkers` for that level if there is one.
+ *
+ * @param textEditor The text editor
+ * @param listItems The list items being normalized
+ * @returns The bullet for each level, or undefined for levels with no bullets
+ */
+function chooseBullets(
+  textEditor: TextEditor,
+  listItems: Map<number, ParsedLine>
+): (string | undefined)[] {
+  // Count how often each bullet is used at each level. Maps keep the order the bullets
+  // are first seen in, so ties go to the first one.
+  const counts: Map<string, number>[] = [];
+  for (const [lineNumber, parsedLine] of listItems) {
+    const bulletMatch = /^[-*+]/.exec(parsedLine.marker);
+    if (bulletMatch === null) {
+      continue;
+    }
+    const level = getContentColumnLevel(textEditor, lineNumber);
+    counts[level] = counts[level] ?? new Map();
+    counts[level].set(bulletMatch[0], (counts[level].get(bulletMatch[0]) ?? 0) + 1);
+  }
+
+  const defaultMarkers = getSetting("defaultMarkers", textEditor.document) as string[];
+  const useDefaultMarkers =
+    getSetting("normalizeBullets", textEditor.document) === "defaultMarkers";
+  const bullets: (string | undefined)[] = [];
+  for (let level = 0; level < counts.length; level++) {
+    if (counts[level] === undefined) {
+      continue;
+    }
+    const defaultMatch =
+      useDefaultMarkers && defaultMarkers.length > 0
+        ? /^[-*+]/.exec(defaultMarkers[level % defaultMarkers.length])
+        : null;
+    if (defaultMatch !== null) {
+      bullets[level] = defaultMatch[0];
+    } else {
+      bullets[level] = [...counts[level].entries()].reduce((best, entry) =>
+        entry[1] > best[1] ? entry : best
+      )[0];
+    }
+  }
+  return bullets;
+}
+
+/**
+ * Normalizes the lists in some ranges of lines. Depending on the options, every
+ * unordered list item at the same level gets the same bullet, each level is indented
+ * consistently and the spacing around the markers is collapsed. Every list item is
+ * edited, so the list edit renumbers all the ordered lists. Continuation paragraphs
+ * move along with the list items they belong to. The content of the list items and the
+ * state of task list checkboxes are kept.
+ *
+ * @param textEditor The text editor
+ * @param listEdit The list edit to add the changes to
+ * @param ranges The first and last line numbers of each range of lines to normalize
+ * @param options Which normalizations to apply
+ */
+export function normalizeLists(
+  textEditor: TextEditor,
+  listEdit: ListEdit,
+  ranges: { startLine: number; endLine: number }[],
+  options: NormalizeOptions
+): void {
+  const document = textEditor.document;
+  const tabSize = textEditor.options.tabSize as number;
+  const listItems = getListItemsInRanges(textEditor, ranges);
+  const bullets = chooseBullets(textEditor, listItems);
+
+  for (const { startLine, endLine } of ranges) {
+    var openItems: OpenItem[] = [];
+    var quoteDepth = 0;
+    for (let lineNumber = startLine; lineNumber <= endLine; lineNumber++) {
+      const line = document.lineAt(lineNumber);
+      if (isBlankLine(line.text)) {
+        continue;
+      }
+
+      // Going into or out of a blockquote ends every list item
+      if (getQuoteDepth(line.text) !== quoteDepth) {
+        openItems = [];
+        quoteDepth = getQuoteDepth(line.text);
+      }
+
+      const parsedLine = listItems.get(lineNumber);
+      if (parsedLine === undefined) {
+        // Move paragraphs along with the list item they belong to
+        const indentation = getIndentationWidth(line.text, tabSize);
+        while (
+          openItems.length > 0 &&
+          openItems[openItems.length - 1].originalContentColumn > indentation
+        ) {
+          openItems.pop();
+        }
+        const owner = openItems[openItems.length - 1];
+        if (
+          owner !== undefined &&
+          owner.contentColumn !== owner.originalContentColumn
+        ) {
+          listEdit.reindentLine(
+            line,
+            createIndentationOfWidth(
+              textEditor,
+              Math.max(
+                0,
+                indentation + owner.contentColumn - owner.originalContentColumn
+              )
+            )
+          );
+        }
+        continue;
+      }
+
+      const level = getContentColumnLevel(textEditor, lineNumber);
+      while (openItems.length > 0 && openItems[openItems.length - 1].level >= level) {
+        openItems.pop();
+      }
+      const parent = openItems[openItems.length - 1];
+
+      const editedParsedLine = listEdit.editLine(parsedLine);
+      if (options.markerSpacing) {
+        editedParsedLine.collapseMarkerSpacing();
+      }
+      if (options.indentation) {
+        editedParsedLine.removeMarkerInitialSpaces();
+        if (usesContentColumns(textEditor.document)) {
+          editedParsedLine.setIndentation(
+            createIndentationOfWidth(
+              textEditor,
+              parent !== undefined ? parent.contentColumn : 0
+            )
+          );
+        } else {
+          editedParsedLine.setIndentationLevel(level);
+        }
+      }
+      const bullet = bullets[level];
+      if (
+        options.bullets &&
+        bullet !== undefined &&
+        /^[-*+]/.test(editedParsedLine.marker)
+      ) {
+        editedParsedLine.setMarker(bullet + editedParsedLine.marker.substring(1));
+      }
+
+      openItems.push({
+        level: level,
+        originalContentColumn: parsedLine.getContentColumn(),
+        contentColumn: editedParsedLine.getContentColumn(),
+      });
+    }
+  }
+}
+
+/**
+ * Works out what normalizing the lists in the document, or in the selections if there
+ * are any, does. See `normalizeLists`. Everything is changed in a single edit, so that
+ * it can be undone in one go.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @returns The text edits to make
+ */
+export function getNormalizeListsEdits(textEditor: TextEditor): TextEdit[] {
+  const listEdit = new ListEdit(textEditor);
+  normalizeLists(textEditor, listEdit, getSelectedRanges(textEditor), {
+    bullets: true,
+    indentation: true,
+    markerSpacing: true,
+  });
+  return listEdit.getTextEdits();
+}
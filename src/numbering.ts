@@ -0,0 +1,146 @@
+/**
+ * The styles of numbering an ordered list item can use.
+ */
+export type NumberingStyle =
+  | "decimal"
+  | "lowerAlpha"
+  | "upperAlpha"
+  | "lowerRoman"
+  | "upperRoman";
+
+const romanNumerals: [string, number][] = [
+  ["m", 1000],
+  ["cm", 900],
+  ["d", 500],
+  ["cd", 400],
+  ["c", 100],
+  ["xc", 90],
+  ["l", 50],
+  ["xl", 40],
+  ["x", 10],
+  ["ix", 9],
+  ["v", 5],
+  ["iv", 4],
+  ["i", 1],
+];
+
+/**
+ * Converts a number to a lowercase roman numeral.
+ *
+ * @param number The number to convert, which should be positive
+ * @returns The roman numeral
+ */
+function toRomanNumeral(number: number): string {
+  var romanNumeral = "";
+  for (const [numeral, value] of romanNumerals) {
+    while (number >= value) {
+      romanNumeral += numeral;
+      number -= value;
+    }
+  }
+  return romanNumeral;
+}
+
+/**
+ * Converts a roman numeral to a number. Only numerals in their standard form are
+ * accepted, so e.g. `iiii` is not a roman numeral.
+ *
+ * @param romanNumeral The roman numeral, in either case
+ * @returns The number, or undefined if the string is not a roman numeral
+ */
+function fromRomanNumeral(romanNumeral: string): number | undefined {
+  const lowerRomanNumeral = romanNumeral.toLowerCase();
+  var number = 0;
+  var remainder = lowerRomanNumeral;
+  for (const [numeral, value] of romanNumerals) {
+    while (remainder.startsWith(numeral)) {
+      number += value;
+      remainder = remainder.substring(numeral.length);
+    }
+  }
+  if (number === 0 || toRomanNumeral(number) !== lowerRomanNumeral) {
+    return undefined;
+  }
+  return number;
+}
+
+/**
+ * Checks whether the number part of a marker is a single letter which could be either
+ * alphabetic or a roman numeral, such as `i` or `C`.
+ *
+ * @param numberText The number part of the marker
+ * @returns Whether the number part is ambiguous
+ */
+export function isAmbiguousLetter(numberText: string): boolean {
+  return /^[ivxlcdm]$/i.test(numberText);
+}
+
+/**
+ * Parses the number part of an ordered list marker, such as `12`, `c` or `IV`. Single
+ * letters are alphabetic, except for `i` and `I` which are roman numerals. Use
+ * `preferredStyle` to read an ambiguous letter the other way.
+ *
+ * @param numberText The number part of the marker
+ * @param preferredStyle The style to use for ambiguous letters, if it fits
+ * @returns The number and its numbering style, or undefined if it is not a number
+ */
+export function parseMarkerNumber(
+  numberText: string,
+  preferredStyle?: NumberingStyle
+): { number: number; numberingStyle: NumberingStyle } | undefined {
+  if (/^[0-9]+$/.test(numberText)) {
+    return { number: parseInt(numberText), numberingStyle: "decimal" };
+  }
+
+  const isUpperCase = numberText === numberText.toUpperCase();
+  const alphaStyle = isUpperCase ? "upperAlpha" : "lowerAlpha";
+  const romanStyle = isUpperCase ? "upperRoman" : "lowerRoman";
+  const alpha = {
+    number: numberText.toLowerCase().charCodeAt(0) - "a".charCodeAt(0) + 1,
+    numberingStyle: alphaStyle as NumberingStyle,
+  };
+  const romanNumber = fromRomanNumeral(numberText);
+  const roman =
+    romanNumber !== undefined
+      ? { number: romanNumber, numberingStyle: romanStyle as NumberingStyle }
+      : undefined;
+
+  if (/^[a-z]$/i.test(numberText)) {
+    if (roman === undefined || preferredStyle === alphaStyle) {
+      return alpha;
+    }
+    if (preferredStyle === romanStyle || /^i$/i.test(numberText)) {
+      return roman;
+    }
+    return alpha;
+  }
+  return roman;
+}
+
+/**
+ * Formats a number as the number part of an ordered list marker. Alphabetic numbering
+ * stops at `z`, since markers of several letters are only read as roman numerals.
+ * Numbers which can't be written in the given style, such as zero or 27 in alphabetic
+ * numbering, are written as decimals.
+ *
+ * @param number The number to format
+ * @param numberingStyle The numbering style to use
+ * @returns The number part of the marker
+ */
+export function formatMarkerNumber(
+  number: number,
+  numberingStyle: NumberingStyle
+): string {
+  if (number <= 0 || numberingStyle === "decimal") {
+    return `${number}`;
+  }
+  if (numberingStyle === "lowerRoman" || numberingStyle === "upperRoman") {
+    const romanNumeral = toRomanNumeral(number);
+    return numberingStyle === "upperRoman" ? romanNumeral.toUpperCase() : romanNumeral;
+  }
+  if (number > 26) {
+    return `${number}`;
+  }
+  const letter = String.fromCharCode("a".charCodeAt(0) + number - 1);
+  return numberingStyle === "upperAlpha" ? letter.toUpperCase() : letter;
+}
@@ -0,0 +1,353 @@
+import { isMarkdownLine } from "./blockContext";
+import {
+  getIndentationWidth,
+  getQuoteDepth,
+  getQuotePrefix,
+  isBlankLine,
+} from "./blockquote";
+import { ListEdit } from "./listEdit";
+import {
+  EditedParsedLine,
+  NotAListItemError,
+  ParsedLine,
+  createIndentationOfWidth,
+  getListRange,
+  getMarkerLevels,
+  usesContentColumns,
+} from "./listItem";
+import { shareSettings } from "./listSettings";
+import {
+  TextEdit,
+  TextEditor,
+  createPosition,
+  createSelection,
+  createTextDocument,
+  createTextEditor,
+  getEditedText,
+  getLineBreak,
+  getLineRange,
+} from "./textDocument";
+
+/**
+ * Where pasted list items go: the level the first of them takes, and the column the
+ * content of the list item they are nested under starts at.
+ *
+ * @property level The level of the first pasted list item
+ * @property parentContentColumn The content column of the parent list item, or 0 if
+ * the pasted list items aren't nested
+ */
+interface PasteTarget {
+  level: number;
+  parentContentColumn: number;
+}
+
+/**
+ * A pasted list item which is open while adjusting the pasted lines, so that the lines
+ * after it can be nested under it.
+ *
+ * @property level The new level of the list item
+ * @property originalContentColumn The column the content of the list item started at
+ * when it was pasted
+ * @property contentColumn The column the content of the list item starts at after
+ * adjusting it
+ */
+interface OpenItem {
+  level: number;
+  originalContentColumn: number;
+  contentColumn: number;
+}
+
+/**
+ * Gets the list items which are open just before a line, from the deepest up. Each is
+ * nested under the one after it.
+ *
+ * @param textEditor The text editor
+ * @param lineNumber The line number to stop before
+ * @returns The open list items
+ */
+function getOpenListItems(textEditor: TextEditor, lineNumber: number): ParsedLine[] {
+  const document = textEditor.document;
+  const tabSize = textEditor.options.tabSize as number;
+  const { startLine } = getListRange(textEditor, lineNumber);
+  var openItems: ParsedLine[] = [];
+  for (
+    let currentLineNumber = startLine;
+    currentLineNumber < lineNumber;
+    currentLineNumber++
+  ) {
+    const line = document.lineAt(currentLineNumber);
+    if (isBlankLine(line.text)) {
+      continue;
+    }
+    try {
+      const parsedLine = new ParsedLine(line, textEditor);
+      openItems = openItems.filter((openItem) => openItem.level < parsedLine.level);
+      openItems.push(parsedLine);
+    } catch (e) {
+      if (!(e instanceof NotAListItemError)) {
+        throw e;
+      }
+      const indentation = getIndentationWidth(line.text, tabSize);
+      openItems = openItems.filter(
+        (openItem) => openItem.getContentColumn() <= indentation
+      );
+    }
+  }
+  return openItems.reverse();
+}
+
+/**
+ * Works out where list items pasted at the cursor should go. The cursor must be on a
+ * blank list item, which the pasted list items replace, or on a blank line in a list,
+ * where they are nested under the list items whose content the line is indented to.
+ *
+ * @param textEditor The text editor
+ * @returns Where the pasted list items go, or undefined if the cursor isn't in a list
+ */
+function getPasteTarget(textEditor: TextEditor): PasteTarget | undefined {
+  const document = textEditor.document;
+  const tabSize = textEditor.options.tabSize as number;
+  const selection = textEditor.selection;
+  const line = document.lineAt(selection.start.line);
+  if (
+    selection.start.line !== selection.end.line ||
+    !isMarkdownLine(textEditor, line.lineNumber) ||
+    !/^\s*$/.test(line.text.substring(selection.end.character))
+  ) {
+    return undefined;
+  }
+  const openItems = getOpenListItems(textEditor, line.lineNumber);
+
+  try {
+    const parsedLine = new ParsedLine(line, textEditor);
+    if (
+      !/^\s*$/.test(parsedLine.remainder) ||
+      selection.start.character < parsedLine.getHead().length
+    ) {
+      return undefined;
+    }
+    const parent = openItems.find((openItem) => openItem.level < parsedLine.level);
+    return {
+      level: parsedLine.level,
+      parentContentColumn: parent !== undefined ? parent.getContentColumn() : 0,
+    };
+  } catch (e) {
+    if (!(e instanceof NotAListItemError)) {
+      throw e;
+    }
+  }
+
+  if (!isBlankLine(line.text) || openItems.length === 0) {
+    return undefined;
+  }
+  const indentation = getIndentationWidth(line.text, tabSize);
+  const parent = openItems.find(
+    (openItem) => openItem.getContentColumn() <= indentation
+  );
+  return parent !== undefined
+    ? { level: parent.level + 1, parentContentColumn: parent.getContentColumn() }
+    : { level: 0, parentContentColumn: 0 };
+}
+
+/**
+ * Checks whether list items pasted at the cursor would be adjusted to fit the list, so
+ * that pasting can be left to VS Code everywhere else.
+ *
+ * @param textEditor The text editor
+ * @returns Whether the cursor is somewhere list items can be pasted
+ */
+export function canPasteListItems(textEditor: TextEditor): boolean {
+  return textEditor.selections.length === 1 && getPasteTarget(textEditor) !== undefined;
+}
+
+/**
+ * Works out how to paste list items into a list, shifting their levels so that the
+ * first of them is at the level of the list item at the cursor. Their markers are
+ * chosen in the same way as when indenting, task list checkboxes are kept where the new
+ * marker allows, paragraphs move along with the list items they belong to and ordered
+ * lists are renumbered to carry on from the surrounding list.
+ *
+ * @param textEditor The text editor
+ * @param text The text being pasted
+ * @returns The text edits to make, or undefined to paste as normal if the text doesn't
+ * start with a list item or the cursor isn't in a list
+ */
+export function getPasteEdits(
+  textEditor: TextEditor,
+  text: string
+): TextEdit[] | undefined {
+  if (textEditor.selections.length !== 1) {
+    return undefined;
+  }
+  const target = getPasteTarget(textEditor);
+  if (target === undefined) {
+    return undefined;
+  }
+
+  // Parse the pasted lines in the same way as the document, ignoring blank lines around
+  // them. Pasted blockquotes are left alone.
+  const pastedLines = text.split(/\r?\n/);
+  while (pastedLines.length > 0 && isBlankLine(pastedLines[0])) {
+    pastedLines.shift();
+  }
+  while (pastedLines.length > 0 && isBlankLine(pastedLines[pastedLines.length - 1])) {
+    pastedLines.pop();
+  }
+  if (pastedLines.some((pastedLine) => getQuoteDepth(pastedLine) > 0)) {
+    return undefined;
+  }
+  const clippedDocument = createTextDocument(pastedLines.join("\n"));
+  shareSettings(clippedDocument, textEditor.document);
+  const clippedEditor = createTextEditor(clippedDocument, textEditor.options);
+  const pastedListItems = pastedLines.map((_pastedLine, lineNumber) => {
+    try {
+      return new ParsedLine(clippedDocument.lineAt(lineNumber), clippedEditor);
+    } catch (e) {
+      if (e instanceof NotAListItemError) {
+        return undefined;
+      }
+      throw e;
+    }
+  });
+  if (pastedListItems.length === 0 || pastedListItems[0] === undefined) {
+    return undefined;
+  }
+  const levels = pastedListItems
+    .filter((pastedListItem) => pastedListItem !== undefined)
+    .map((pastedListItem) => (pastedListItem as ParsedLine).level);
+  const minLevel = Math.min(...levels);
+  const markerLevels = getMarkerLevels(
+    textEditor,
+    target.level + Math.max(...levels) - minLevel
+  );
+
+  // Work out what the document would be with the lines pasted inside the same
+  // blockquote as the cursor. The markers of the pasted list items are left off, and
+  // added back as new list items, so that they don't count when working out how the
+  // list they are pasted into is numbered.
+  const document = textEditor.document;
+  const startLine = textEditor.selection.start.line;
+  const quotePrefix = getQuotePrefix(document.lineAt(startLine).text);
+  const lines: string[] = [];
+  for (let lineNumber = 0; lineNumber < document.lineCount; lineNumber++) {
+    if (lineNumber !== startLine) {
+      lines.push(document.lineAt(lineNumber).text);
+      continue;
+    }
+    pastedLines.forEach((pastedLine, index) => {
+      const pastedListItem = pastedListItems[index];
+      if (pastedListItem !== undefined) {
+        lines.push(quotePrefix + pastedListItem.remainder);
+      } else {
+        lines.push(
+          index > 0 && isBlankLine(pastedLine)
+            ? quotePrefix.trimEnd()
+            : quotePrefix + pastedLine
+        );
+      }
+    });
+  }
+  const pastedDocument = createTextDocument(lines.join("\n"));
+  shareSettings(pastedDocument, document);
+  const cursor = createPosition(startLine, quotePrefix.length);
+  const pastedEditor = createTextEditor(pastedDocument, textEditor.options, [
+    createSelection(cursor, cursor),
+  ]);
+
+  // Then move them to their new levels and give them new markers
+  const tabSize = textEditor.options.tabSize as number;
+  const listEdit = new ListEdit(pastedEditor);
+  var openItems: OpenItem[] = [];
+  for (const [index, pastedListItem] of pastedListItems.entries()) {
+    const pastedLine = pastedDocument.lineAt(startLine + index);
+    if (pastedListItem === undefined) {
+      if (isBlankLine(pastedLine.text)) {
+        continue;
+      }
+
+      // Move paragraphs along with the list item they belong to
+      const indentation = getIndentationWidth(pastedLine.text, tabSize);
+      while (
+        openItems.length > 0 &&
+        openItems[openItems.length - 1].originalContentColumn > indentation
+      ) {
+        openItems.pop();
+      }
+      const owner = openItems[openItems.length - 1];
+      if (owner !== undefined && owner.contentColumn !== owner.originalContentColumn) {
+        listEdit.reindentLine(
+          pastedLine,
+          createIndentationOfWidth(
+            pastedEditor,
+            Math.max(0, indentation + owner.contentColumn - owner.originalContentColumn)
+          )
+        );
+      }
+      continue;
+    }
+
+    const level = target.level + pastedListItem.level - minLevel;
+    while (openItems.length > 0 && openItems[openItems.length - 1].level >= level) {
+      openItems.pop();
+    }
+    const parent = openItems[openItems.length - 1];
+
+    const editedParsedLine = new EditedParsedLine(
+      { lineNumber: pastedLine.lineNumber, text: quotePrefix + pastedLines[index] },
+      pastedEditor
+    );
+    const originalContentColumn = editedParsedLine.getContentColumn();
+    editedParsedLine.setIndentationLevelAndDetermineMarker(level, markerLevels);
+    if (
+      pastedListItem.markerIsTask &&
+      !editedParsedLine.markerIsTask &&
+      /^[-*+]$/.test(editedParsedLine.marker)
+    ) {
+      editedParsedLine.setMarker(
+        editedParsedLine.marker + (pastedListItem.markerIsChecked ? " [x]" : " [ ]")
+      );
+    }
+    if (usesContentColumns(document)) {
+      editedParsedLine.setIndentation(
+        createIndentationOfWidth(
+          pastedEditor,
+          parent !== undefined ? parent.contentColumn : target.parentContentColumn
+        )
+      );
+    }
+    openItems.push({
+      level: level,
+      originalContentColumn: originalContentColumn,
+      contentColumn: editedParsedLine.getContentColumn(),
+    });
+    listEdit.addMarker(pastedLine, editedParsedLine);
+  }
+
+  // Replace the line the cursor is on with the pasted lines, which leaves the cursor
+  // after them, and any list items around them which are renumbered or checked
+  const editedLines = getEditedText(pastedDocument, listEdit.getTextEdits()).split(
+    "\n"
+  );
+  const lineBreak = getLineBreak(document);
+  const textEdits: TextEdit[] = [];
+  for (let lineNumber = 0; lineNumber < document.lineCount; lineNumber++) {
+    const line = document.lineAt(lineNumber);
+    if (lineNumber === startLine) {
+      textEdits.push({
+        range: getLineRange(line),
+        newText: editedLines
+          .slice(startLine, startLine + pastedLines.length)
+          .join(lineBreak),
+      });
+      continue;
+    }
+    const editedLine =
+      editedLines[
+        lineNumber < startLine ? lineNumber : lineNumber + pastedLines.length - 1
+      ];
+    if (editedLine !== line.text) {
+      textEdits.push({ range: getLineRange(line), newText: editedLine });
+    }
+  }
+  return textEdits;
+}
@@ -0,0 +1,432 @@
+import { isMarkdownLine } from "./blockContext";
+import {
+  getIndentation,
+  getIndentationWidth,
+  getQuoteDepth,
+  getQuotePrefix,
+  isBlankLine,
+} from "./blockquote";
+import {
+  NotAListItemError,
+  ParsedLine,
+  createIndentationOfWidth,
+  startsListItem,
+} from "./listItem";
+import { getSetting } from "./listSettings";
+import { getEnclosingListItemBlock } from "./listStructure";
+import {
+  Position,
+  TextDocumentChangeEvent,
+  TextEdit,
+  TextEditor,
+  TextLine,
+  comparePositions,
+  createPosition,
+  createRange,
+  getLineBreak,
+} from "./textDocument";
+
+/**
+ * A paragraph of a list item, as a run of lines.
+ *
+ * @property parsedLine The list item the paragraph belongs to
+ * @property lines The lines of the paragraph, in order
+ * @property startsWithItem Whether the first line is the list item itself, rather than
+ * a continuation line
+ */
+interface ListParagraph {
+  parsedLine: ParsedLine;
+  lines: TextLine[];
+  startsWithItem: boolean;
+}
+
+/**
+ * A word of a paragraph, which is never broken across lines.
+ *
+ * @property start The offset of the word in the content of the paragraph
+ * @property end The offset just after the word
+ * @property text The text of the word, with any line breaks inside it joined up
+ */
+interface Word {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Checks whether a line of a markdown document carries on a paragraph of a list item,
+ * rather than being a list item itself, a blank line, or a heading or table row nested
+ * in the list item.
+ *
+ * @param textEditor The text editor
+ * @param parsedLine The list item
+ * @param lineNumber The line number to check
+ * @returns Whether the line is part of a paragraph of the list item
+ */
+function isParagraphLine(
+  textEditor: TextEditor,
+  parsedLine: ParsedLine,
+  lineNumber: number
+): boolean {
+  const document = textEditor.document;
+  const text = document.lineAt(lineNumber).text;
+  if (
+    isBlankLine(text) ||
+    !isMarkdownLine(textEditor, lineNumber) ||
+    getQuoteDepth(text) !== parsedLine.quoteDepth ||
+    getIndentationWidth(text, textEditor.options.tabSize as number) <=
+      parsedLine.initialSpacingAsSpaces.length ||
+    /^(#{1,6}(\s|$)|\|)/.test(text.substring(getQuotePrefix(text).length).trimStart())
+  ) {
+    return false;
+  }
+  try {
+    new ParsedLine(document.lineAt(lineNumber), textEditor);
+    return false;
+  } catch (e) {
+    if (e instanceof NotAListItemError) {
+      return true;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Gets the paragraph of a list item which a line is in. Paragraphs are ended by blank
+ * lines and by list items, so they never take in other list items or nested lists.
+ *
+ * @param textEditor The text editor
+ * @param lineNumber The line number
+ * @returns The paragraph, or undefined if the line isn't in a paragraph of a list item
+ */
+function getListParagraph(
+  textEditor: TextEditor,
+  lineNumber: number
+): ListParagraph | undefined {
+  const document = textEditor.document;
+  if (
+    isBlankLine(document.lineAt(lineNumber).text) ||
+    !isMarkdownLine(textEditor, lineNumber)
+  ) {
+    return undefined;
+  }
+  const block = getEnclosingListItemBlock(textEditor, lineNumber);
+  if (block === undefined) {
+    return undefined;
+  }
+  const parsedLine = block.parsedLine;
+  const itemLineNumber = parsedLine.line.lineNumber;
+  if (
+    lineNumber !== itemLineNumber &&
+    !isParagraphLine(textEditor, parsedLine, lineNumber)
+  ) {
+    return undefined;
+  }
+
+  var startLine = lineNumber;
+  while (
+    startLine - 1 > itemLineNumber &&
+    isParagraphLine(textEditor, parsedLine, startLine - 1)
+  ) {
+    startLine--;
+  }
+  if (startLine - 1 === itemLineNumber) {
+    startLine--;
+  }
+  var endLine = lineNumber;
+  while (
+    endLine + 1 <= block.endLine &&
+    isParagraphLine(textEditor, parsedLine, endLine + 1)
+  ) {
+    endLine++;
+  }
+
+  const lines: TextLine[] = [];
+  for (let i = startLine; i <= endLine; i++) {
+    lines.push(document.lineAt(i));
+  }
+  return {
+    parsedLine: parsedLine,
+    lines: lines,
+    startsWithItem: startLine === itemLineNumber,
+  };
+}
+
+/**
+ * Gets the length of the inline code span or link starting at an offset, which must
+ * be kept on one line. A backslash escapes the character after it, unless it is a hard
+ * line break at the end of a line.
+ *
+ * @param content The text
+ * @param offset The offset to look at
+ * @returns The length of the code span, link or escape, or 0 if there isn't one there
+ */
+function getUnbreakableLength(content: string, offset: number): number {
+  const rest = content.substring(offset);
+  if (rest.startsWith("\\")) {
+    return /^\\\S/.test(rest) ? 2 : 1;
+  }
+  const backticks = /^`+/.exec(rest);
+  if (backticks !== null) {
+    // A code span ends at the next run of the same number of backticks, and a run with
+    // no match is just backticks
+    const closingPattern = new RegExp(`(?<!\`)${backticks[0]}(?!\`)`, "g");
+    closingPattern.lastIndex = backticks[0].length;
+    const closing = closingPattern.exec(rest);
+    return closing !== null ? closing.index + closing[0].length : backticks[0].length;
+  }
+  const link =
+    /^!?\[(?:\\.|[^[\]\\]|\[(?:\\.|[^[\]\\])*\])*\](?:\((?:\\.|[^()\\]|\((?:\\.|[^()\\])*\))*\)|\[(?:\\.|[^[\]\\])*\])?/.exec(
+      rest
+    );
+  return link !== null ? link[0].length : 0;
+}
+
+/**
+ * Splits the content of a paragraph into words at its whitespace, keeping inline code
+ * spans and links whole even if they have spaces or line breaks in them.
+ *
+ * @param content The content of the paragraph, with its lines separated by `\n`
+ * @returns The words, in order
+ */
+function splitWords(content: string): Word[] {
+  const words: Word[] = [];
+  var offset = 0;
+  while (offset < content.length) {
+    if (/\s/.test(content[offset])) {
+      offset++;
+      continue;
+    }
+    const start = offset;
+    while (offset < content.length && !/\s/.test(content[offset])) {
+      offset += Math.max(1, getUnbreakableLength(content, offset));
+    }
+    words.push({
+      start: start,
+      end: offset,
+      text: content.substring(start, offset).replace(/[ \t]*\n[ \t]*/g, " "),
+    });
+  }
+  return words;
+}
+
+/**
+ * Checks whether a word would be read as the start of a block, such as a list item, a
+ * heading, a blockquote or a heading underline, if it started a line.
+ *
+ * @param word The word
+ * @returns Whether the word can't start a line
+ */
+function startsBlock(word: string): boolean {
+  return /^([-=]+|#{1,6})$/.test(word) || word.startsWith(">") || startsListItem(word);
+}
+
+/**
+ * Works out the text edits which rewrap a paragraph of a list item. Only the whitespace
+ * between words changes: each gap becomes a space, or a line break followed by the
+ * continuation indentation when the next word doesn't fit within the wrap column. Line
+ * breaks inside code spans and links are joined up, and hard line breaks are kept.
+ *
+ * @param textEditor The text editor
+ * @param paragraph The paragraph
+ * @param wrapColumn The column to wrap at
+ * @returns The text edits
+ */
+function getParagraphEdits(
+  textEditor: TextEditor,
+  paragraph: ListParagraph,
+  wrapColumn: number
+): TextEdit[] {
+  const parsedLine = paragraph.parsedLine;
+  const tabSize = textEditor.options.tabSize as number;
+
+  // Continuation lines are indented to the content column of the list item, inside the
+  // same blockquote
+  const contentColumn = parsedLine.getContentColumn();
+  const continuationIndent =
+    parsedLine.quotePrefix + createIndentationOfWidth(textEditor, contentColumn);
+  const lineStartWidth = parsedLine.quotePrefix.length + contentColumn;
+  const lineBreak = getLineBreak(textEditor.document);
+
+  // Join the content of the lines, remembering where each line's content starts
+  const contentStarts: number[] = [];
+  const lineOffsets: number[] = [];
+  var content = "";
+  paragraph.lines.forEach((line, index) => {
+    const contentStart =
+      index === 0 && paragraph.startsWithItem
+        ? parsedLine.getHead().length
+        : getQuotePrefix(line.text).length + getIndentation(line.text).length;
+    contentStarts.push(contentStart);
+    lineOffsets.push(content.length + (index > 0 ? 1 : 0));
+    content += (index > 0 ? "\n" : "") + line.text.substring(contentStart);
+  });
+  const toPosition = (offset: number): Position => {
+    var index = lineOffsets.length - 1;
+    while (index > 0 && lineOffsets[index] > offset) {
+      index--;
+    }
+    return createPosition(
+      paragraph.lines[index].lineNumber,
+      contentStarts[index] + offset - lineOffsets[index]
+    );
+  };
+  const getText = (start: Position, end: Position): string => {
+    const document = textEditor.document;
+    var text = "";
+    for (let lineNumber = start.line; lineNumber <= end.line; lineNumber++) {
+      const lineText = document.lineAt(lineNumber).text;
+      text +=
+        (lineNumber > start.line ? "\n" : "") +
+        lineText.substring(
+          lineNumber === start.line ? start.character : 0,
+          lineNumber === end.line ? end.character : lineText.length
+        );
+    }
+    return text;
+  };
+
+  const textEdits: TextEdit[] = [];
+  const replace = (start: Position, end: Position, newText: string) => {
+    if (getText(start, end) !== newText) {
+      textEdits.push({
+        range: createRange(start.line, start.character, end.line, end.character),
+        newText: newText,
+      });
+    }
+  };
+
+  // A continuation paragraph's first line is indented like the rest
+  if (!paragraph.startsWithItem) {
+    const firstLine = paragraph.lines[0];
+    replace(
+      createPosition(firstLine.lineNumber, 0),
+      createPosition(firstLine.lineNumber, contentStarts[0]),
+      continuationIndent
+    );
+  }
+
+  const words = splitWords(content);
+  var width = lineStartWidth;
+  words.forEach((word, index) => {
+    // Join up the line breaks inside the word
+    const lineBreakPattern = /[ \t]*\n[ \t]*/g;
+    const wordText = content.substring(word.start, word.end);
+    for (
+      var match = lineBreakPattern.exec(wordText);
+      match !== null;
+      match = lineBreakPattern.exec(wordText)
+    ) {
+      replace(
+        toPosition(word.start + match.index),
+        toPosition(word.start + match.index + match[0].length),
+        " "
+      );
+    }
+    const wordWidth = word.text.replace(/\t/g, " ".repeat(tabSize)).length;
+    if (index === 0) {
+      width += wordWidth;
+      return;
+    }
+
+    // Hard line breaks, made with two spaces or a backslash at the end of a line, stay
+    // where they are
+    const previous = words[index - 1];
+    const gap = content.substring(previous.end, word.start);
+    const gapStart = toPosition(previous.end);
+    const gapEnd = toPosition(word.start);
+    const gapLine = textEditor.document.lineAt(gapStart.line).text;
+    if (
+      gap.includes("\n") &&
+      (/ {2,}$/.test(gapLine) || previous.text.endsWith("\\"))
+    ) {
+      replace(
+        createPosition(gapStart.line, gapLine.length),
+        gapEnd,
+        lineBreak + continuationIndent
+      );
+      width = lineStartWidth + wordWidth;
+    } else if (width + 1 + wordWidth <= wrapColumn || startsBlock(word.text)) {
+      replace(gapStart, gapEnd, " ");
+      width += 1 + wordWidth;
+    } else {
+      replace(gapStart, gapEnd, lineBreak + continuationIndent);
+      width = lineStartWidth + wordWidth;
+    }
+  });
+  return textEdits;
+}
+
+/**
+ * Works out the text edits which rewrap the paragraphs of list items on the lines
+ * covered by the selections, so that no line goes past the `wrapColumn` setting unless
+ * a single word does. Continuation lines are indented to the content column of their
+ * list item. Inline code and links are never broken across lines, and list items and
+ * nested lists are never joined to the paragraph.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @returns The text edits to make
+ */
+export function getRewrapListItemEdits(textEditor: TextEditor): TextEdit[] {
+  const wrapColumn = getSetting("wrapColumn", textEditor.document) as number;
+  const textEdits: TextEdit[] = [];
+  const rewrappedLines = new Set<number>();
+  for (const selection of textEditor.selections) {
+    for (let i = selection.start.line; i <= selection.end.line; i++) {
+      if (rewrappedLines.has(i)) {
+        continue;
+      }
+      const paragraph = getListParagraph(textEditor, i);
+      if (paragraph === undefined) {
+        continue;
+      }
+      for (const line of paragraph.lines) {
+        rewrappedLines.add(line.lineNumber);
+      }
+      textEdits.push(...getParagraphEdits(textEditor, paragraph, wrapColumn));
+    }
+  }
+  return textEdits;
+}
+
+/**
+ * Works out the text edits which rewrap the paragraph of a list item as the user types
+ * past the `wrapColumn` setting, if the `wrapOnType` setting is on. The paragraph is
+ * rewrapped when a space is typed on a line which goes past the wrap column.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @param event The change the user made to the document
+ * @returns The text edits to make, or undefined if the paragraph shouldn't be rewrapped
+ */
+export function getWrapOnTypeEdits(
+  textEditor: TextEditor,
+  event: TextDocumentChangeEvent
+): TextEdit[] | undefined {
+  const document = textEditor.document;
+  if (
+    !getSetting("wrapOnType", document) ||
+    event.document !== document ||
+    event.contentChanges.length !== 1
+  ) {
+    return undefined;
+  }
+  const change = event.contentChanges[0];
+  if (
+    change.text !== " " ||
+    comparePositions(change.range.start, change.range.end) !== 0
+  ) {
+    return undefined;
+  }
+  const line = document.lineAt(change.range.start.line);
+  const tabSize = textEditor.options.tabSize as number;
+  const wrapColumn = getSetting("wrapColumn", document) as number;
+  if (line.text.trimEnd().replace(/\t/g, " ".repeat(tabSize)).length <= wrapColumn) {
+    return undefined;
+  }
+  const paragraph = getListParagraph(textEditor, line.lineNumber);
+  if (paragraph === undefined) {
+    return undefined;
+  }
+  const textEdits = getParagraphEdits(textEditor, paragraph, wrapColumn);
+  return textEdits.length > 0 ? textEdits : undefined;
+}
@@ -0,0 +1,241 @@
+import { NotAListItemError, ParsedLine } from "./listItem";
+import {
+  ListItemBlock,
+  getEnclosingListItemBlock,
+  getListItemBlock,
+  getNextSibling,
+  getPreviousSibling,
+} from "./listStructure";
+import { renumberReorderedItems } from "./moveListItems";
+import {
+  Position,
+  TextEditor,
+  TextEditsWithSelections,
+  createPosition,
+  createRange,
+  createSelection,
+  getLineBreak,
+} from "./textDocument";
+
+/**
+ * How to sort list items.
+ *
+ * @property key What to sort by: the text of the items (`alphabetical`), the first
+ * number in their text (`numeric`), or the state of their task list checkboxes, with
+ * open tasks first and done tasks last (`checkbox`)
+ * @property recursive Whether to sort the lists nested under the items too
+ * @property caseSensitive Whether upper and lower case letters sort differently when
+ * sorting alphabetically
+ * @property locale The language to sort alphabetically in, such as `en`. Defaults to
+ * the language of the environment
+ */
+export interface SortOptions {
+  key: "alphabetical" | "numeric" | "checkbox";
+  recursive: boolean;
+  caseSensitive?: boolean;
+  locale?: string;
+}
+
+/**
+ * Creates a function which compares list items for sorting.
+ *
+ * @param options How to sort the list items
+ * @returns The comparison function
+ */
+function createComparer(
+  options: SortOptions
+): (a: ParsedLine, b: ParsedLine) => number {
+  if (options.key === "numeric") {
+    const getNumber = (parsedLine: ParsedLine): number => {
+      const numberMatch = /-?\d+(?:\.\d+)?/.exec(parsedLine.remainder);
+      return numberMatch !== null ? parseFloat(numberMatch[0]) : Infinity;
+    };
+    return (a, b) => {
+      const difference = getNumber(a) - getNumber(b);
+      return isNaN(difference) ? 0 : difference;
+    };
+  } else if (options.key === "checkbox") {
+    const getRank = (parsedLine: ParsedLine): number =>
+      !parsedLine.markerIsTask ? 1 : parsedLine.markerIsChecked ? 2 : 0;
+    return (a, b) => getRank(a) - getRank(b);
+  } else {
+    const collator = new Intl.Collator(options.locale, {
+      sensitivity: options.caseSensitive ? "variant" : "base",
+    });
+    return (a, b) => collator.compare(a.remainder.trim(), b.remainder.trim());
+  }
+}
+
+/**
+ * A line of the sorted text, along with the line it came from.
+ *
+ * @property text The text of the line
+ * @property lineNumber The line number the line was at before sorting
+ */
+interface SortedLine {
+  text: string;
+  lineNumber: number;
+}
+
+/**
+ * Sorts a list item's siblings, keeping everything nested under each of them together
+ * with it. The blank lines between the siblings stay where they are, and ordered lists
+ * keep the numbers at each position.
+ *
+ * @param textEditor The text editor
+ * @param firstSibling The first list item of the siblings
+ * @param options How to sort the list items
+ * @returns The sorted lines, and the line number of the last line of the siblings
+ */
+function sortSiblings(
+  textEditor: TextEditor,
+  firstSibling: ParsedLine,
+  options: SortOptions
+): { lines: SortedLine[]; endLine: number } {
+  const blocks: ListItemBlock[] = [getListItemBlock(textEditor, firstSibling)];
+  while (true) {
+    const nextSibling = getNextSibling(textEditor, blocks[blocks.length - 1]);
+    if (nextSibling === undefined) {
+      break;
+    }
+    blocks.push(getListItemBlock(textEditor, nextSibling));
+  }
+
+  const compare = createComparer(options);
+  const sortedBlocks = [...blocks].sort((a, b) => compare(a.parsedLine, b.parsedLine));
+  const renumberedLines = renumberReorderedItems(
+    blocks.map((block) => block.parsedLine),
+    sortedBlocks.map((block) => block.parsedLine)
+  );
+
+  const lines: SortedLine[] = [];
+  for (const [index, block] of sortedBlocks.entries()) {
+    if (index > 0) {
+      // Keep the gaps between the siblings in place
+      for (
+        let lineNumber = blocks[index - 1].endLine + 1;
+        lineNumber < blocks[index].startLine;
+        lineNumber++
+      ) {
+        lines.push({
+          text: textEditor.document.lineAt(lineNumber).text,
+          lineNumber: lineNumber,
+        });
+      }
+    }
+    lines.push(...sortBlock(textEditor, block, renumberedLines, options));
+  }
+  return { lines: lines, endLine: blocks[blocks.length - 1].endLine };
+}
+
+/**
+ * Gets the lines of a list item block, with the lists nested under it sorted too if
+ * sorting recursively.
+ *
+ * @param textEditor The text editor
+ * @param block The block of the list item
+ * @param renumberedLines The new text of the renumbered list item lines
+ * @param options How to sort the list items
+ * @returns The lines of the block
+ */
+function sortBlock(
+  textEditor: TextEditor,
+  block: ListItemBlock,
+  renumberedLines: Map<number, string>,
+  options: SortOptions
+): SortedLine[] {
+  const document = textEditor.document;
+  const lines: SortedLine[] = [
+    {
+      text:
+        renumberedLines.get(block.startLine) ?? document.lineAt(block.startLine).text,
+      lineNumber: block.startLine,
+    },
+  ];
+  for (
+    let lineNumber = block.startLine + 1;
+    lineNumber <= block.endLine;
+    lineNumber++
+  ) {
+    const line = document.lineAt(lineNumber);
+    if (options.recursive) {
+      try {
+        // Sort each nested list from its first item
+        const sorted = sortSiblings(
+          textEditor,
+          new ParsedLine(line, textEditor),
+          options
+        );
+        lines.push(...sorted.lines);
+        lineNumber = sorted.endLine;
+        continue;
+      } catch (e) {
+        if (!(e instanceof NotAListItemError)) {
+          throw e;
+        }
+      }
+    }
+    lines.push({ text: line.text, lineNumber: lineNumber });
+  }
+  return lines;
+}
+
+/**
+ * Works out how to sort the list item the cursor is in along with its siblings, and if
+ * asked to, the lists nested under them. Each list item moves with everything nested
+ * under it. Ordered lists are renumbered so that the numbers stay in order.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @param options How to sort the list items
+ * @returns The text edits to make and where the selections go, or undefined if the
+ * cursor isn't in a list
+ */
+export function getSortListItemsEdits(
+  textEditor: TextEditor,
+  options: SortOptions
+): TextEditsWithSelections | undefined {
+  const block = getEnclosingListItemBlock(textEditor, textEditor.selection.active.line);
+  if (block === undefined) {
+    return undefined;
+  }
+
+  var firstSibling = block.parsedLine;
+  while (true) {
+    const previousSibling = getPreviousSibling(textEditor, firstSibling);
+    if (previousSibling === undefined) {
+      break;
+    }
+    firstSibling = previousSibling;
+  }
+  const startLine = firstSibling.line.lineNumber;
+  const sorted = sortSiblings(textEditor, firstSibling, options);
+
+  // Keep the selections on the lines they were on
+  const newLineNumbers = new Map<number, number>();
+  for (const [index, line] of sorted.lines.entries()) {
+    newLineNumbers.set(line.lineNumber, startLine + index);
+  }
+  const movePosition = (position: Position): Position =>
+    createPosition(
+      newLineNumbers.get(position.line) ?? position.line,
+      position.character
+    );
+  return {
+    textEdits: [
+      {
+        range: createRange(
+          startLine,
+          0,
+          sorted.endLine,
+          textEditor.document.lineAt(sorted.endLine).text.length
+        ),
+        newText: sorted.lines
+          .map((line) => line.text)
+          .join(getLineBreak(textEditor.document)),
+      },
+    ],
+    selections: textEditor.selections.map((selection) =>
+      createSelection(movePosition(selection.anchor), movePosition(selection.active))
+    ),
+  };
+}
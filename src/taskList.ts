@@ -0,0 +1,61 @@
+import { ListEdit } from "./listEdit";
+import { NotAListItemError, ParsedLine } from "./listItem";
+import { TextEdit, TextEditor } from "./textDocument";
+
+/**
+ * Gets the task list items on the lines covered by the selections. A selection which
+ * ends at the start of a line doesn't cover that line.
+ *
+ * @param textEditor The text editor
+ * @returns The task list items, each one only once
+ */
+function getSelectedTasks(textEditor: TextEditor): ParsedLine[] {
+  const tasks: ParsedLine[] = [];
+  const seenLineNumbers = new Set<number>();
+  for (const selection of textEditor.selections) {
+    var endLine = selection.end.line;
+    if (endLine > selection.start.line && selection.end.character === 0) {
+      endLine--;
+    }
+    for (let i = selection.start.line; i <= endLine; i++) {
+      if (seenLineNumbers.has(i)) {
+        continue;
+      }
+      seenLineNumbers.add(i);
+      try {
+        const parsedLine = new ParsedLine(textEditor.document.lineAt(i), textEditor);
+        if (parsedLine.markerIsTask) {
+          tasks.push(parsedLine);
+        }
+      } catch (e) {
+        if (e instanceof NotAListItemError) {
+          continue;
+        }
+        throw e;
+      }
+    }
+  }
+  return tasks;
+}
+
+/**
+ * Works out what toggling task list items does. If every task list item in the
+ * selections is checked, it unchecks them all. Otherwise, it checks them all. Works with
+ * multiple cursors.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @returns The text edits to make
+ */
+export function getToggleTaskEdits(textEditor: TextEditor): TextEdit[] {
+  const tasks = getSelectedTasks(textEditor);
+  if (tasks.length === 0) {
+    return [];
+  }
+
+  const checked = !tasks.every((task) => task.markerIsChecked);
+  const listEdit = new ListEdit(textEditor);
+  for (const task of tasks) {
+    listEdit.editLine(task).setTaskChecked(checked);
+  }
+  return listEdit.getTextEdits();
+}
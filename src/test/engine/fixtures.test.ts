@@ -0,0 +1,229 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+  Position,
+  Selection,
+  SettingsProvider,
+  TextEdit,
+  TextEditor,
+  TextEditorOptions,
+  createPosition,
+  createSelection,
+  createTextDocument,
+  createTextEditor,
+  getBackspaceEdits,
+  getEditedText,
+  getEnterKeyEdits,
+  getIndentEdits,
+  getMoveItemEdits,
+  getNormalizeListsEdits,
+  getOutdentEdits,
+  getPasteEdits,
+  getRewrapListItemEdits,
+  getSettingsProvider,
+  getShiftEnterEdits,
+  getShiftTabEdits,
+  getSortListItemsEdits,
+  getTabEdits,
+  getToggleListEdits,
+  getToggleTaskEdits,
+  getWrapOnTypeEdits,
+  setSettingsProvider,
+} from "../../engine";
+
+/**
+ * The commands the fixtures can run, keyed by the name of the fixture file. Commands
+ * which paste are given the text on the clipboard.
+ */
+const commands: {
+  [name: string]: (textEditor: TextEditor, clipboard: string) => TextEdit[] | undefined;
+} = {
+  enter: getEnterKeyEdits,
+  shiftEnter: getShiftEnterEdits,
+  indent: getIndentEdits,
+  outdent: getOutdentEdits,
+  tab: getTabEdits,
+  shiftTab: getShiftTabEdits,
+  backspace: getBackspaceEdits,
+  toggleTask: getToggleTaskEdits,
+  toggleBulletList: (textEditor) => getToggleListEdits(textEditor, "bullet"),
+  toggleNumberedList: (textEditor) => getToggleListEdits(textEditor, "numbered"),
+  toggleTaskList: (textEditor) => getToggleListEdits(textEditor, "task"),
+  normalizeLists: getNormalizeListsEdits,
+  paste: getPasteEdits,
+  moveItemUp: (textEditor) => getMoveItemEdits(textEditor, "up")?.textEdits,
+  moveItemDown: (textEditor) => getMoveItemEdits(textEditor, "down")?.textEdits,
+  sortAlphabetically: (textEditor) =>
+    getSortListItemsEdits(textEditor, {
+      key: "alphabetical",
+      recursive: false,
+      locale: "en",
+    })?.textEdits,
+  sortAlphabeticallyAllLevels: (textEditor) =>
+    getSortListItemsEdits(textEditor, {
+      key: "alphabetical",
+      recursive: true,
+      locale: "en",
+    })?.textEdits,
+  sortNumerically: (textEditor) =>
+    getSortListItemsEdits(textEditor, { key: "numeric", recursive: false })?.textEdits,
+  sortOpenTasksFirst: (textEditor) =>
+    getSortListItemsEdits(textEditor, { key: "checkbox", recursive: false })?.textEdits,
+  rewrapListItem: getRewrapListItemEdits,
+  wrapOnType: (textEditor) => {
+    // The fixtures show the document just after a space was typed before the cursor
+    const active = textEditor.selection.active;
+    const start = createPosition(active.line, active.character - 1);
+    return getWrapOnTypeEdits(textEditor, {
+      document: textEditor.document,
+      contentChanges: [{ range: { start: start, end: start }, text: " " }],
+    });
+  },
+};
+
+/**
+ * The fixtures live with the sources, since the compiler doesn't copy them to `out`.
+ */
+const fixturesPath = path.resolve(__dirname, "../../../src/test/engine/fixtures");
+
+/**
+ * A test case read from a fixture file.
+ *
+ * @property title The title of the test case
+ * @property settings The settings to use, on top of the defaults
+ * @property options The indentation options of the text editor
+ * @property before The document before the command, with cursor markers
+ * @property clipboard The text on the clipboard
+ * @property after The document after the command, or undefined if the command should
+ * leave the key to do what it normally does
+ */
+interface Fixture {
+  title: string;
+  settings: { [key: string]: unknown };
+  options: TextEditorOptions;
+  before: string;
+  clipboard: string;
+  after: string | undefined;
+}
+
+/**
+ * Reads the test cases from a fixture file. Each test case starts with a `## Title`
+ * heading, followed by optional `settings: {...}` and `options: {...}` lines holding
+ * JSON, then a fenced ` ````markdown before ` block, an optional fenced
+ * ` ````markdown clipboard ` block and, unless the command should do nothing, a fenced
+ * ` ````markdown after ` block.
+ *
+ * @param text The text of the fixture file
+ * @returns The test cases
+ */
+function parseFixtures(text: string): Fixture[] {
+  const fixtures: Fixture[] = [];
+  const lines = text.split(/\r?\n/);
+  var fixture: Fixture | undefined = undefined;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = /^````markdown (before|clipboard|after)$/.exec(line);
+    if (line.startsWith("## ")) {
+      fixture = {
+        title: line.substring(3),
+        settings: {},
+        options: { tabSize: 4, insertSpaces: true },
+        before: "",
+        clipboard: "",
+        after: undefined,
+      };
+      fixtures.push(fixture);
+    } else if (fixture !== undefined && line.startsWith("settings: ")) {
+      fixture.settings = JSON.parse(line.substring("settings: ".length));
+    } else if (fixture !== undefined && line.startsWith("options: ")) {
+      Object.assign(fixture.options, JSON.parse(line.substring("options: ".length)));
+    } else if (fixture !== undefined && fenceMatch !== null) {
+      const blockLines: string[] = [];
+      for (i++; i < lines.length && lines[i] !== "````"; i++) {
+        blockLines.push(lines[i]);
+      }
+      fixture[fenceMatch[1] as "before" | "clipboard" | "after"] =
+        blockLines.join("\n");
+    }
+  }
+  return fixtures;
+}
+
+/**
+ * Takes the cursor markers out of a document. `|` is a cursor, and `«` and `»` are the
+ * anchor and the cursor of a selection.
+ *
+ * @param text The document with cursor markers
+ * @returns The document without them and the selections, in the order they appear
+ */
+function parseSelections(text: string): { text: string; selections: Selection[] } {
+  const selections: Selection[] = [];
+  const lines = text.split("\n");
+  var anchor: Position | undefined = undefined;
+  var active: Position | undefined = undefined;
+  const strippedLines = lines.map((line, lineNumber) => {
+    var strippedLine = "";
+    for (const character of line) {
+      const position = createPosition(lineNumber, strippedLine.length);
+      if (character === "|") {
+        selections.push(createSelection(position, position));
+      } else if (character === "«" || character === "»") {
+        if (character === "«") {
+          anchor = position;
+        } else {
+          active = position;
+        }
+        if (anchor !== undefined && active !== undefined) {
+          selections.push(createSelection(anchor, active));
+          anchor = undefined;
+          active = undefined;
+        }
+      } else {
+        strippedLine += character;
+      }
+    }
+    return strippedLine;
+  });
+  return { text: strippedLines.join("\n"), selections: selections };
+}
+
+for (const fileName of fs.readdirSync(fixturesPath).sort()) {
+  const commandName = path.basename(fileName, ".md");
+  const command = commands[commandName];
+  const fixtures = parseFixtures(
+    fs.readFileSync(path.join(fixturesPath, fileName), "utf8")
+  );
+
+  suite(`Engine: ${commandName}`, () => {
+    var previousSettingsProvider: SettingsProvider;
+    suiteSetup(() => {
+      previousSettingsProvider = getSettingsProvider();
+    });
+    suiteTeardown(() => {
+      setSettingsProvider(previousSettingsProvider);
+    });
+
+    test("Has a command", () => {
+      assert.ok(command !== undefined, `No command called ${commandName}`);
+    });
+
+    for (const fixture of fixtures) {
+      test(fixture.title, () => {
+        setSettingsProvider((key) => fixture.settings[key]);
+        const { text, selections } = parseSelections(fixture.before);
+        const document = createTextDocument(text);
+        const textEditor = createTextEditor(document, fixture.options, selections);
+
+        const textEdits = command(textEditor, fixture.clipboard);
+        if (fixture.after === undefined) {
+          assert.strictEqual(textEdits, undefined);
+        } else {
+          assert.ok(textEdits !== undefined, "The command did nothing");
+          assert.strictEqual(getEditedText(document, textEdits), fixture.after);
+        }
+      });
+    }
+  });
+}
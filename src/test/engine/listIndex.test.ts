@@ -0,0 +1,344 @@
+import * as assert from "assert";
+
+import {
+  ListIndex,
+  Range,
+  SettingsProvider,
+  TextDocument,
+  TextEdit,
+  TextEditor,
+  TextLine,
+  createPosition,
+  createRange,
+  createSelection,
+  createTextDocument,
+  createTextEditor,
+  getEditedText,
+  getEnterKeyEdits,
+  getListIndex,
+  getSettingsProvider,
+  setSettingsProvider,
+  updateListIndex,
+} from "../../engine";
+
+/**
+ * A list index which counts the lines it parses and adds to its line number lookups.
+ */
+class CountingListIndex extends ListIndex {
+  parsedLineCount = 0;
+  lookedUpLineCount = 0;
+
+  protected parseLine(textEditor: TextEditor, lineNumber: number) {
+    this.parsedLineCount++;
+    return super.parseLine(textEditor, lineNumber);
+  }
+
+  protected addToLookups(...args: Parameters<ListIndex["addToLookups"]>): void {
+    this.lookedUpLineCount++;
+    super.addToLookups(...args);
+  }
+}
+
+/**
+ * A document which changes in place, like the documents in VS Code, telling the list
+ * index about each change. It counts how many lines are read from it.
+ */
+class ChangingDocument implements TextDocument {
+  version = 1;
+  lineAtCount = 0;
+  protected lines: string[];
+
+  constructor(text: string) {
+    this.lines = text.split("\n");
+  }
+
+  get lineCount(): number {
+    return this.lines.length;
+  }
+
+  lineAt(lineNumber: number): TextLine {
+    this.lineAtCount++;
+    return { lineNumber: lineNumber, text: this.lines[lineNumber] };
+  }
+
+  /**
+   * Makes some text edits to the document, all relative to the document as it is.
+   *
+   * @param textEdits The text edits
+   */
+  edit(textEdits: TextEdit[]): void {
+    // Making the edits from the end of the document backwards keeps the ranges of the
+    // ones before them the same
+    const contentChanges = textEdits
+      .map((textEdit) => ({ range: textEdit.range, text: textEdit.newText }))
+      .sort(
+        (a, b) =>
+          b.range.start.line - a.range.start.line ||
+          b.range.start.character - a.range.start.character
+      );
+    for (const { range, text } of contentChanges) {
+      const before = this.lines[range.start.line].substring(0, range.start.character);
+      const after = this.lines[range.end.line].substring(range.end.character);
+      this.lines.splice(
+        range.start.line,
+        range.end.line - range.start.line + 1,
+        ...(before + text + after).split("\n")
+      );
+    }
+    this.version++;
+    updateListIndex({ document: this, contentChanges: contentChanges });
+  }
+}
+
+/**
+ * Creates a long changelog-like document, with numbered lists under headings and some
+ * nested bullets.
+ *
+ * @param sectionCount The number of sections
+ * @returns The text of the document
+ */
+function createLongDocument(sectionCount: number): string {
+  const lines: string[] = [];
+  for (let section = 0; section < sectionCount; section++) {
+    lines.push(`## Version ${section}`, "");
+    for (let item = 1; item <= 40; item++) {
+      lines.push(`${item}. Change ${item} in version ${section}`);
+      if (item % 5 === 0) {
+        lines.push("    - Detail", "    - Another detail");
+      }
+    }
+    lines.push("");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Creates a text editor showing a new document.
+ *
+ * @param text The text of the document
+ * @returns The text editor
+ */
+function createEditor(text: string): TextEditor {
+  return createTextEditor(createTextDocument(text), { tabSize: 4, insertSpaces: true });
+}
+
+/**
+ * Replaces some text in the document of a text editor, telling the list index about the
+ * change and then bringing it and its line number lookups up to date, in the same way
+ * as when the document changes in VS Code.
+ *
+ * @param listIndex The list index of the document
+ * @param textEditor The text editor
+ * @param changes The ranges to replace and the text to replace them with, each one
+ * relative to the document as left by the ones before it
+ * @returns A text editor showing the changed document
+ */
+function changeDocument(
+  listIndex: CountingListIndex,
+  textEditor: TextEditor,
+  changes: { range: Range; text: string }[]
+): TextEditor {
+  var document = textEditor.document;
+  var text = "";
+  for (const change of changes) {
+    text = getEditedText(document, [{ range: change.range, newText: change.text }]);
+    document = createTextDocument(text);
+  }
+  const changedDocument = createTextDocument(text, textEditor.document.version + 1);
+  listIndex.applyChanges({ document: changedDocument, contentChanges: changes });
+  const changedEditor = createTextEditor(changedDocument, textEditor.options);
+  listIndex.parsedLineCount = 0;
+  listIndex.lookedUpLineCount = 0;
+  listIndex.refresh(changedEditor);
+  listIndex.getListRange(0);
+  return changedEditor;
+}
+
+/**
+ * Checks that a list index gives the same answers as one built from scratch.
+ *
+ * @param listIndex The list index
+ * @param textEditor The text editor showing the document it indexes
+ */
+function assertIndexUpToDate(listIndex: ListIndex, textEditor: TextEditor): void {
+  const freshIndex = new ListIndex(textEditor);
+  for (let lineNumber = 0; lineNumber < textEditor.document.lineCount; lineNumber++) {
+    const parsedLine = listIndex.getParsedLine(lineNumber);
+    const freshParsedLine = freshIndex.getParsedLine(lineNumber);
+    const message = `Line ${lineNumber}`;
+    assert.strictEqual(parsedLine?.getHead(), freshParsedLine?.getHead(), message);
+    assert.strictEqual(parsedLine?.level, freshParsedLine?.level, message);
+    assert.deepStrictEqual(
+      listIndex.getListRange(lineNumber),
+      freshIndex.getListRange(lineNumber),
+      message
+    );
+    assert.deepStrictEqual(
+      listIndex.getSectionRange(lineNumber),
+      freshIndex.getSectionRange(lineNumber),
+      message
+    );
+    for (const level of [0, 1]) {
+      assert.deepStrictEqual(
+        listIndex.getSiblingNumbers(lineNumber, level, 0, -1),
+        freshIndex.getSiblingNumbers(lineNumber, level, 0, -1),
+        message
+      );
+      assert.strictEqual(
+        listIndex.findNearestListItem(lineNumber, level, 0, 1),
+        freshIndex.findNearestListItem(lineNumber, level, 0, 1),
+        message
+      );
+    }
+  }
+}
+
+suite("Engine: list index", () => {
+  var previousSettingsProvider: SettingsProvider;
+  setup(() => {
+    previousSettingsProvider = getSettingsProvider();
+    setSettingsProvider(() => undefined);
+  });
+  teardown(() => {
+    setSettingsProvider(previousSettingsProvider);
+  });
+
+  test("Only parses the lines around a change", () => {
+    var textEditor = createEditor(createLongDocument(50));
+    const listIndex = new CountingListIndex(textEditor);
+    listIndex.getListRange(0);
+
+    textEditor = changeDocument(listIndex, textEditor, [
+      { range: createRange(1000, 0, 1000, 0), text: "1. Inserted\n2. Inserted\n" },
+    ]);
+    assert.ok(
+      listIndex.parsedLineCount < 60,
+      `Parsed ${listIndex.parsedLineCount} lines`
+    );
+    assert.ok(
+      listIndex.lookedUpLineCount < 60,
+      `Added ${listIndex.lookedUpLineCount} lines to the lookups`
+    );
+    assertIndexUpToDate(listIndex, textEditor);
+  });
+
+  test("Is kept up to date by several changes at once", () => {
+    var textEditor = createEditor(createLongDocument(5));
+    const listIndex = new CountingListIndex(textEditor);
+    listIndex.getListRange(0);
+
+    textEditor = changeDocument(listIndex, textEditor, [
+      { range: createRange(5, 0, 5, 0), text: "1. Inserted\n2. Inserted\n" },
+      { range: createRange(40, 0, 42, 0), text: "" },
+      { range: createRange(2, 0, 2, 2), text: "- " },
+    ]);
+    assertIndexUpToDate(listIndex, textEditor);
+  });
+
+  test("Parses the lines a code fence opens and closes", () => {
+    var textEditor = createEditor(createLongDocument(5));
+    const listIndex = new CountingListIndex(textEditor);
+    listIndex.getListRange(0);
+
+    textEditor = changeDocument(listIndex, textEditor, [
+      { range: createRange(10, 0, 10, 0), text: "```\n" },
+    ]);
+    assertIndexUpToDate(listIndex, textEditor);
+
+    textEditor = changeDocument(listIndex, textEditor, [
+      { range: createRange(60, 0, 60, 0), text: "```\n" },
+    ]);
+    assertIndexUpToDate(listIndex, textEditor);
+  });
+
+  test("Parses the lines before a change which closes an HTML comment", () => {
+    var textEditor = createEditor(
+      ["- One", "<!--", "- Two", "- Three", "-->", "- Four"].join("\n")
+    );
+    const listIndex = new CountingListIndex(textEditor);
+    listIndex.getListRange(0);
+
+    textEditor = changeDocument(listIndex, textEditor, [
+      { range: createRange(4, 0, 4, 3), text: "" },
+    ]);
+    assertIndexUpToDate(listIndex, textEditor);
+  });
+
+  test("Parses the lines between a block which wasn't closed and a change closing it", () => {
+    var textEditor = createEditor(
+      ["---", "- One", "<!--", "- Two", "- Three", "- Four"].join("\n")
+    );
+    const listIndex = new CountingListIndex(textEditor);
+    listIndex.getListRange(0);
+
+    textEditor = changeDocument(listIndex, textEditor, [
+      { range: createRange(4, 7, 4, 7), text: " -->" },
+    ]);
+    assertIndexUpToDate(listIndex, textEditor);
+
+    textEditor = changeDocument(listIndex, textEditor, [
+      { range: createRange(5, 6, 5, 6), text: "\n---" },
+    ]);
+    assertIndexUpToDate(listIndex, textEditor);
+  });
+
+  test("Parses the nested list items whose level a change affects", () => {
+    setSettingsProvider((key) =>
+      key === "indentationMode" ? "contentColumn" : undefined
+    );
+    var textEditor = createEditor(
+      ["1. One", "   - Two", "     - Three", "", "Paragraph", "", "- Four"].join("\n")
+    );
+    const listIndex = new CountingListIndex(textEditor);
+    listIndex.getListRange(0);
+
+    textEditor = changeDocument(listIndex, textEditor, [
+      { range: createRange(0, 0, 0, 2), text: "10." },
+    ]);
+    assertIndexUpToDate(listIndex, textEditor);
+  });
+
+  test("Keeps Enter responsive in long documents", () => {
+    const document = new ChangingDocument(createLongDocument(500));
+    const options = { tabSize: 4, insertSpaces: true };
+    var lineNumber = Math.floor(document.lineCount / 2);
+    while (!/^\d+\. /.test(document.lineAt(lineNumber).text)) {
+      lineNumber++;
+    }
+
+    // Presses Enter at the end of a line and types on the new line, returning how many
+    // lines Enter read
+    const pressEnter = (): number => {
+      const end = createPosition(lineNumber, document.lineAt(lineNumber).text.length);
+      const textEditor = createTextEditor(document, options, [
+        createSelection(end, end),
+      ]);
+      document.lineAtCount = 0;
+      const textEdits = getEnterKeyEdits(textEditor);
+      const lineAtCount = document.lineAtCount;
+      assert.ok(textEdits !== undefined);
+      document.edit(textEdits);
+      lineNumber++;
+      const position = createPosition(
+        lineNumber,
+        document.lineAt(lineNumber).text.length
+      );
+      document.edit([
+        { range: { start: position, end: position }, newText: "New change" },
+      ]);
+      return lineAtCount;
+    };
+
+    // The first Enter builds the index, so only count the ones after it
+    pressEnter();
+    for (let i = 0; i < 20; i++) {
+      const lineAtCount = pressEnter();
+      assert.ok(
+        lineAtCount < 1000,
+        `Enter read ${lineAtCount} lines of a ${document.lineCount} line document`
+      );
+    }
+    const textEditor = createTextEditor(document, options);
+    assertIndexUpToDate(getListIndex(textEditor), textEditor);
+  });
+});
@@ -0,0 +1,164 @@
+import * as assert from "assert";
+
+import {
+  SettingsProvider,
+  createTextDocument,
+  frontMatterKey,
+  getMarkdownListsrcSetting,
+  getSetting,
+  getSettingsProvider,
+  globToRegExp,
+  parseMarkdownListsrc,
+  parseYaml,
+  setSettingsProvider,
+  shareSettings,
+} from "../../engine";
+
+suite("Engine: front matter", () => {
+  test("Parses block mappings and sequences", () => {
+    assert.deepStrictEqual(
+      parseYaml(
+        [
+          "title: Release notes # not a list",
+          "clever-lists:",
+          "  markers:",
+          '    - "1."',
+          "    - '-'",
+          "  propagateTaskCompletion: true",
+          "tags:",
+          "- one",
+          "- two",
+        ].join("\n")
+      ),
+      {
+        title: "Release notes",
+        [frontMatterKey]: { markers: ["1.", "-"], propagateTaskCompletion: true },
+        tags: ["one", "two"],
+      }
+    );
+  });
+
+  test("Parses flow collections", () => {
+    assert.deepStrictEqual(
+      parseYaml(
+        'clever-lists: { markers: ["*", -, 1.], indentationMode: contentColumn }'
+      ),
+      {
+        [frontMatterKey]: {
+          markers: ["*", "-", "1."],
+          indentationMode: "contentColumn",
+        },
+      }
+    );
+  });
+
+  test("Parses mappings inside sequence items", () => {
+    assert.deepStrictEqual(parseYaml("- name: One\n  size: 2\n- name: Two"), [
+      { name: "One", size: 2 },
+      { name: "Two" },
+    ]);
+  });
+
+  test("Reads YAML escapes in double-quoted strings", () => {
+    assert.deepStrictEqual(parseYaml('title: "A\\x41\\t\\u00e9"'), { title: "AA\té" });
+    assert.throws(() => parseYaml('path: "C:\\path"'));
+  });
+});
+
+suite("Engine: .markdownlistsrc", () => {
+  test("Matches globs against paths", () => {
+    assert.ok(globToRegExp("*.md").test("docs/wiki/page.md"));
+    assert.ok(globToRegExp("wiki/**").test("wiki/a/b.md"));
+    assert.ok(!globToRegExp("wiki/**").test("docs/wiki/b.md"));
+    assert.ok(globToRegExp("**/notes/*.{md,markdown}").test("notes/x.markdown"));
+    assert.ok(!globToRegExp("notes/*.md").test("notes/a/x.md"));
+  });
+
+  test("Takes each setting from the last section which matches and has it", () => {
+    const sections = parseMarkdownListsrc(
+      [
+        "{",
+        '  "*.md": { "markers": ["-"], "orderedListNumbering": "sequential" },',
+        '  "release-notes/**": { "markers": ["1.", "-"] }',
+        "}",
+      ].join("\n")
+    );
+    assert.deepStrictEqual(
+      getMarkdownListsrcSetting(sections, "release-notes/1.0.md", "defaultMarkers"),
+      ["1.", "-"]
+    );
+    assert.deepStrictEqual(
+      getMarkdownListsrcSetting(sections, "wiki/home.md", "defaultMarkers"),
+      ["-"]
+    );
+    assert.strictEqual(
+      getMarkdownListsrcSetting(
+        sections,
+        "release-notes/1.0.md",
+        "orderedListNumbering"
+      ),
+      "sequential"
+    );
+    assert.strictEqual(
+      getMarkdownListsrcSetting(sections, "README.txt", "orderedListNumbering"),
+      undefined
+    );
+  });
+});
+
+suite("Engine: settings", () => {
+  var previousSettingsProvider: SettingsProvider;
+  suiteSetup(() => {
+    previousSettingsProvider = getSettingsProvider();
+  });
+  suiteTeardown(() => {
+    setSettingsProvider(previousSettingsProvider);
+  });
+
+  test("Reads the front matter, then the settings provider, then the defaults", () => {
+    setSettingsProvider((key) => (key === "defaultMarkers" ? ["*"] : undefined));
+    const document = createTextDocument(
+      "---\nclever-lists:\n  markers: [+]\n  backspaceBehaviour: 3\n---\n- One"
+    );
+    assert.deepStrictEqual(getSetting("defaultMarkers", document), ["+"]);
+    assert.strictEqual(getSetting("backspaceBehaviour", document), "Outdent");
+    assert.deepStrictEqual(getSetting("defaultMarkers", createTextDocument("- One")), [
+      "*",
+    ]);
+    assert.strictEqual(getSetting("markerInferenceScope", document), "list");
+  });
+
+  test("Ignores values which the settings don't allow", () => {
+    setSettingsProvider((key) => (key === "wrapColumn" ? 60 : undefined));
+    const document = createTextDocument(
+      "---\nclever-lists:\n  wrapColumn: 0\n  backspaceBehaviour: Sideways\n---\n- One"
+    );
+    assert.strictEqual(getSetting("wrapColumn", document), 60);
+    assert.strictEqual(getSetting("backspaceBehaviour", document), "Outdent");
+    assert.strictEqual(
+      getSetting(
+        "backspaceBehaviour",
+        createTextDocument(
+          "---\nclever-lists: { backspaceBehaviour: Remove Marker }\n---"
+        )
+      ),
+      "Remove Marker"
+    );
+  });
+
+  test("Shares the settings of another document", () => {
+    setSettingsProvider(() => undefined);
+    const document = createTextDocument("---\nclever-lists: { markers: [+] }\n---");
+    const pastedDocument = createTextDocument("- One");
+    shareSettings(pastedDocument, document);
+    assert.deepStrictEqual(getSetting("defaultMarkers", pastedDocument), ["+"]);
+  });
+
+  test("Ignores front matter which can't be parsed", () => {
+    setSettingsProvider((key) => (key === "defaultMarkers" ? ["*"] : undefined));
+    const document = createTextDocument(
+      '---\npath: "C:\\path"\nclever-lists: { markers: [+] }\n---\n- One'
+    );
+    assert.deepStrictEqual(getSetting("defaultMarkers", document), ["*"]);
+  });
+});
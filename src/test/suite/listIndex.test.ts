@@ -0,0 +1,94 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+
+import { ListIndex, getListIndex } from "../../listIndex";
+
+/**
+ * Creates a long changelog-like document, with numbered lists under headings and some
+ * nested bullets.
+ *
+ * @param sectionCount The number of sections
+ * @returns The text of the document
+ */
+function createLongDocument(sectionCount: number): string {
+  const lines: string[] = [];
+  for (let section = 0; section < sectionCount; section++) {
+    lines.push(`## Version ${section}`, "");
+    for (let item = 1; item <= 40; item++) {
+      lines.push(`${item}. Change ${item} in version ${section}`);
+      if (item % 5 === 0) {
+        lines.push("    - Detail", "    - Another detail");
+      }
+    }
+    lines.push("");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Opens a markdown document in a text editor.
+ *
+ * @param content The text of the document
+ * @returns The text editor
+ */
+async function openMarkdown(content: string): Promise<vscode.TextEditor> {
+  const document = await vscode.workspace.openTextDocument({
+    language: "markdown",
+    content: content,
+  });
+  const textEditor = await vscode.window.showTextDocument(document);
+  textEditor.options = { tabSize: 4, insertSpaces: true };
+  return textEditor;
+}
+
+/**
+ * Checks that the list index of a text editor gives the same answers as one built from
+ * scratch.
+ *
+ * @param textEditor The text editor
+ */
+function assertIndexUpToDate(textEditor: vscode.TextEditor): void {
+  const listIndex = getListIndex(textEditor);
+  const freshIndex = new ListIndex(textEditor);
+  for (
+    let lineNumber = 0;
+    lineNumber < textEditor.document.lineCount;
+    lineNumber += 7
+  ) {
+    assert.deepStrictEqual(
+      listIndex.getListRange(lineNumber),
+      freshIndex.getListRange(lineNumber)
+    );
+    assert.deepStrictEqual(
+      listIndex.getSiblingNumbers(lineNumber, 0, 0, -1),
+      freshIndex.getSiblingNumbers(lineNumber, 0, 0, -1)
+    );
+    assert.strictEqual(
+      listIndex.getParsedLine(lineNumber)?.getHead(),
+      freshIndex.getParsedLine(lineNumber)?.getHead()
+    );
+  }
+}
+
+suite("List Index", () => {
+  teardown(async () => {
+    await vscode.commands.executeCommand("workbench.action.closeAllEditors");
+  });
+
+  test("Is kept up to date as the document changes", async () => {
+    const textEditor = await openMarkdown(createLongDocument(20));
+    getListIndex(textEditor);
+
+    await textEditor.edit((edit) => {
+      edit.insert(new vscode.Position(5, 0), "1. Inserted\n2. Inserted\n");
+      edit.delete(new vscode.Range(40, 0, 42, 0));
+      edit.replace(new vscode.Range(100, 0, 100, 3), "```\n");
+    });
+    assertIndexUpToDate(textEditor);
+
+    await textEditor.edit((edit) => {
+      edit.replace(new vscode.Range(101, 0, 101, 0), "```\n");
+    });
+    assertIndexUpToDate(textEditor);
+  });
+});
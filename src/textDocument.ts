@@ -0,0 +1,340 @@
+/**
+ * A position in a document.
+ *
+ * @property line The zero-based line number
+ * @property character The zero-based character offset on the line
+ */
+export interface Position {
+  readonly line: number;
+  readonly character: number;
+}
+
+/**
+ * A range of a document, from one position to another.
+ *
+ * @property start The start of the range, which comes before or is the same as the end
+ * @property end The end of the range
+ */
+export interface Range {
+  readonly start: Position;
+  readonly end: Position;
+}
+
+/**
+ * A selection in a text editor.
+ *
+ * @property anchor The position the selection starts from
+ * @property active The position of the cursor
+ * @property start The first of the anchor and the cursor
+ * @property end The last of the anchor and the cursor
+ * @property isEmpty Whether the anchor and the cursor are at the same position
+ */
+export interface Selection extends Range {
+  readonly anchor: Position;
+  readonly active: Position;
+  readonly isEmpty: boolean;
+}
+
+/**
+ * A line of a document.
+ *
+ * @property lineNumber The zero-based line number
+ * @property text The text of the line, without the line break
+ */
+export interface TextLine {
+  readonly lineNumber: number;
+  readonly text: string;
+}
+
+/**
+ * A document made of lines of text.
+ *
+ * @property version A number which goes up each time the document changes
+ * @property lineCount The number of lines in the document
+ * @property eol The line breaks the document uses, numbered as in VS Code's `EndOfLine`:
+ * 1 for `\n` and 2 for `\r\n`. Documents without it use `\n`
+ * @property lineAt Gets a line of the document by its line number
+ */
+export interface TextDocument {
+  readonly version: number;
+  readonly lineCount: number;
+  readonly eol?: number;
+  lineAt(line: number): TextLine;
+}
+
+/**
+ * The indentation options of a text editor.
+ *
+ * @property tabSize The width of a tab in spaces
+ * @property insertSpaces Whether to indent with spaces rather than tabs
+ */
+export interface TextEditorOptions {
+  tabSize?: number | string;
+  insertSpaces?: boolean | string;
+}
+
+/**
+ * A text editor showing a document. This is all the list logic needs of a text editor,
+ * so VS Code's text editors can be passed to it as they are, and so can plain objects
+ * (see `createTextEditor`), which lets it run without VS Code.
+ *
+ * @property document The document
+ * @property options The indentation options
+ * @property selection The primary selection
+ * @property selections All the selections, the primary one first
+ */
+export interface TextEditor {
+  readonly document: TextDocument;
+  options: TextEditorOptions;
+  readonly selection: Selection;
+  readonly selections: readonly Selection[];
+}
+
+/**
+ * A change to a document, replacing a range of it with some text.
+ *
+ * @property range The range to replace
+ * @property newText The text to replace it with
+ */
+export interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+/**
+ * The text edits made by a command which moves lines around, along with where the
+ * selections go afterwards so that they stay on the same lines.
+ *
+ * @property textEdits The text edits
+ * @property selections The selections, relative to the document after the text edits
+ */
+export interface TextEditsWithSelections {
+  textEdits: TextEdit[];
+  selections: Selection[];
+}
+
+/**
+ * Something which changes to a document can be written to, such as a
+ * `TextEditCollector`.
+ */
+export interface TextEditBuilder {
+  replace(range: Range, newText: string): void;
+  insert(position: Position, newText: string): void;
+  delete(range: Range): void;
+}
+
+/**
+ * A change made to a document, as reported after it has been made.
+ *
+ * @property range The range which was replaced
+ * @property text The text it was replaced with
+ */
+export interface TextDocumentContentChange {
+  readonly range: Range;
+  readonly text: string;
+}
+
+/**
+ * The changes made to a document in one go.
+ *
+ * @property document The document, after the changes
+ * @property contentChanges The changes, each one made to the document as the ones
+ * before it left it
+ */
+export interface TextDocumentChangeEvent {
+  readonly document: TextDocument;
+  readonly contentChanges: readonly TextDocumentContentChange[];
+}
+
+/**
+ * Creates a position.
+ *
+ * @param line The line number
+ * @param character The character offset on the line
+ * @returns The position
+ */
+export function createPosition(line: number, character: number): Position {
+  return { line: line, character: character };
+}
+
+/**
+ * Creates a range between two positions on one line, or from one position to another.
+ *
+ * @param startLine The line number of the start
+ * @param startCharacter The character offset of the start
+ * @param endLine The line number of the end
+ * @param endCharacter The character offset of the end
+ * @returns The range
+ */
+export function createRange(
+  startLine: number,
+  startCharacter: number,
+  endLine: number,
+  endCharacter: number
+): Range {
+  return {
+    start: createPosition(startLine, startCharacter),
+    end: createPosition(endLine, endCharacter),
+  };
+}
+
+/**
+ * Compares two positions.
+ *
+ * @param a The first position
+ * @param b The second position
+ * @returns A negative number if `a` comes first, a positive number if `b` does, or zero
+ * if they are the same
+ */
+export function comparePositions(a: Position, b: Position): number {
+  return a.line !== b.line ? a.line - b.line : a.character - b.character;
+}
+
+/**
+ * Creates a selection from an anchor to a cursor.
+ *
+ * @param anchor The position the selection starts from
+ * @param active The position of the cursor
+ * @returns The selection
+ */
+export function createSelection(anchor: Position, active: Position): Selection {
+  const isReversed = comparePositions(active, anchor) < 0;
+  return {
+    anchor: anchor,
+    active: active,
+    start: isReversed ? active : anchor,
+    end: isReversed ? anchor : active,
+    isEmpty: comparePositions(anchor, active) === 0,
+  };
+}
+
+/**
+ * Gets the range covering the text of a line, without its line break.
+ *
+ * @param line The line
+ * @returns The range of the line
+ */
+export function getLineRange(line: TextLine): Range {
+  return createRange(line.lineNumber, 0, line.lineNumber, line.text.length);
+}
+
+/**
+ * Gets the line break a document uses.
+ *
+ * @param document The document
+ * @returns `\r\n` or `\n`
+ */
+export function getLineBreak(document: TextDocument): string {
+  return document.eol === 2 ? "\r\n" : "\n";
+}
+
+/**
+ * Creates a document holding some text, which never changes.
+ *
+ * @param text The text of the document, with lines separated by `\n` or `\r\n`. The
+ * document uses `\r\n` line breaks if the text has any
+ * @param version The version of the document
+ * @returns The document
+ */
+export function createTextDocument(text: string, version: number = 1): TextDocument {
+  const lines = text.split(/\r?\n/);
+  return {
+    version: version,
+    lineCount: lines.length,
+    eol: text.includes("\r\n") ? 2 : 1,
+    lineAt: (lineNumber: number) => ({
+      lineNumber: lineNumber,
+      text: lines[lineNumber],
+    }),
+  };
+}
+
+/**
+ * Creates a text editor showing a document.
+ *
+ * @param document The document
+ * @param options The indentation options
+ * @param selections The selections, the primary one first. Defaults to a cursor at the
+ * start of the document
+ * @returns The text editor
+ */
+export function createTextEditor(
+  document: TextDocument,
+  options: TextEditorOptions,
+  selections?: Selection[]
+): TextEditor {
+  const editorSelections =
+    selections !== undefined && selections.length > 0
+      ? selections
+      : [createSelection(createPosition(0, 0), createPosition(0, 0))];
+  return {
+    document: document,
+    options: { tabSize: options.tabSize, insertSpaces: options.insertSpaces },
+    selection: editorSelections[0],
+    selections: editorSelections,
+  };
+}
+
+/**
+ * Collects the changes written to it as text edits.
+ */
+export class TextEditCollector implements TextEditBuilder {
+  textEdits: TextEdit[] = [];
+
+  public replace(range: Range, newText: string): void {
+    this.textEdits.push({ range: range, newText: newText });
+  }
+
+  public insert(position: Position, newText: string): void {
+    this.textEdits.push({
+      range: { start: position, end: position },
+      newText: newText,
+    });
+  }
+
+  public delete(range: Range): void {
+    this.textEdits.push({ range: range, newText: "" });
+  }
+}
+
+/**
+ * Works out the text of a document once some text edits have been made to it. The text
+ * edits must not overlap. Text edits inserting at the same position are made in order.
+ *
+ * @param document The document
+ * @param textEdits The text edits, all relative to the document as it is
+ * @returns The text of the document after the text edits, with lines separated by `\n`
+ */
+export function getEditedText(document: TextDocument, textEdits: TextEdit[]): string {
+  const lineOffsets: number[] = [];
+  const lines: string[] = [];
+  var offset = 0;
+  for (let lineNumber = 0; lineNumber < document.lineCount; lineNumber++) {
+    const text = document.lineAt(lineNumber).text;
+    lineOffsets.push(offset);
+    lines.push(text);
+    offset += text.length + 1;
+  }
+  const toOffset = (position: Position) =>
+    lineOffsets[position.line] +
+    Math.min(position.character, lines[position.line].length);
+
+  // Make the text edits from the end of the document backwards, so that each one leaves
+  // the offsets of the ones still to be made as they were
+  var text = lines.join("\n");
+  const sortedTextEdits = textEdits
+    .map((textEdit, index) => ({ textEdit: textEdit, index: index }))
+    .sort(
+      (a, b) =>
+        comparePositions(b.textEdit.range.start, a.textEdit.range.start) ||
+        comparePositions(b.textEdit.range.end, a.textEdit.range.end) ||
+        b.index - a.index
+    );
+  for (const { textEdit } of sortedTextEdits) {
+    text =
+      text.substring(0, toOffset(textEdit.range.start)) +
+      textEdit.newText +
+      text.substring(toOffset(textEdit.range.end));
+  }
+  return text;
+}
@@ -0,0 +1,291 @@
+import { isMarkdownLine } from "./blockContext";
+import {
+  getIndentation,
+  getIndentationWidth,
+  getQuotePrefix,
+  isBlankLine,
+} from "./blockquote";
+import { ListEdit } from "./listEdit";
+import {
+  EditedParsedLine,
+  NotAListItemError,
+  ParsedLine,
+  determineFullMarker,
+  determineMarkerNumber,
+  getMarkerLevels,
+  getMarkerSpacing,
+  usesContentColumns,
+} from "./listItem";
+import { getSetting } from "./listSettings";
+import { getEnclosingListItemBlock, getListItemDescendants } from "./listStructure";
+import { TextDocument, TextEdit, TextEditor, TextLine } from "./textDocument";
+
+/**
+ * The kinds of list the selection can be turned into. Task lists are always bulleted,
+ * since a checkbox after a number isn't part of the marker.
+ */
+export type ListKind = "bullet" | "numbered" | "task";
+
+/**
+ * A line covered by the selections which isn't a list item, along with the level it
+ * becomes a list item at.
+ *
+ * @property line The line
+ * @property level The level of the new list item
+ */
+interface PlainLine {
+  line: TextLine;
+  level: number;
+}
+
+/**
+ * Gets the kind of list a list item is in.
+ *
+ * @param parsedLine The list item
+ * @returns The kind of list
+ */
+function getListKind(parsedLine: ParsedLine): ListKind {
+  if (parsedLine.markerIsTask) {
+    return "task";
+  }
+  return /^[-*+]/.test(parsedLine.marker) ? "bullet" : "numbered";
+}
+
+/**
+ * Removes the task list checkbox from a marker, if it has one.
+ *
+ * @param marker The marker, or full marker
+ * @returns The marker without its checkbox
+ */
+function removeCheckbox(marker: string): string {
+  return marker.replace(/ \[[xX ]\]$/, "");
+}
+
+/**
+ * Chooses a full marker for a level which is numbered or not. This is the marker
+ * `determineFullMarker` chooses if it is the right kind, or otherwise the first default
+ * marker of the right kind from that level on, or failing that `1.` or `-`.
+ *
+ * @param document The document
+ * @param markerLevels The marker levels in the document
+ * @param level The level to get the marker for
+ * @param numbered Whether the marker should be numbered
+ * @returns The full marker, without a task list checkbox
+ */
+function chooseFullMarker(
+  document: TextDocument,
+  markerLevels: string[],
+  level: number,
+  numbered: boolean
+): string {
+  const defaultMarkers = getSetting("defaultMarkers", document) as string[];
+  const candidates = [determineFullMarker(document, markerLevels, level)];
+  for (let i = 0; i < defaultMarkers.length; i++) {
+    candidates.push(defaultMarkers[(level + i) % defaultMarkers.length]);
+  }
+  for (const candidate of candidates) {
+    if (/^\s*[-*+]/.test(candidate) !== numbered) {
+      return removeCheckbox(candidate);
+    }
+  }
+  return numbered ? "1." : "-";
+}
+
+/**
+ * Gets the lines covered by the selections which can be turned into list items or
+ * changed to another kind of list. A selection which ends at the start of a line
+ * doesn't cover that line. Blank lines and lines which aren't markdown content are
+ * skipped, and so are the lines nested under a selected list item, which stay part of
+ * it. Other lines nested under a list item become list items nested under it.
+ *
+ * @param textEditor The text editor
+ * @returns The list items and the other lines, in the order they appear
+ */
+function getSelectedLines(textEditor: TextEditor): {
+  parsedLines: ParsedLine[];
+  plainLines: PlainLine[];
+} {
+  const document = textEditor.document;
+  const tabSize = textEditor.options.tabSize as number;
+  const lineNumbers = new Set<number>();
+  for (const selection of textEditor.selections) {
+    var endLine = selection.end.line;
+    if (endLine > selection.start.line && selection.end.character === 0) {
+      endLine--;
+    }
+    for (let i = selection.start.line; i <= endLine; i++) {
+      lineNumbers.add(i);
+    }
+  }
+
+  const parsedLines: ParsedLine[] = [];
+  const plainLines: PlainLine[] = [];
+  const nestedLineNumbers = new Set<number>();
+  for (const lineNumber of Array.from(lineNumbers).sort((a, b) => a - b)) {
+    const line = document.lineAt(lineNumber);
+    if (isBlankLine(line.text) || !isMarkdownLine(textEditor, lineNumber)) {
+      continue;
+    }
+    try {
+      const parsedLine = new ParsedLine(line, textEditor);
+      parsedLines.push(parsedLine);
+      for (const continuationLine of getListItemDescendants(textEditor, parsedLine)
+        .continuationLines) {
+        nestedLineNumbers.add(continuationLine.lineNumber);
+      }
+    } catch (e) {
+      if (!(e instanceof NotAListItemError)) {
+        throw e;
+      }
+      if (nestedLineNumbers.has(lineNumber)) {
+        continue;
+      }
+      const owner = getEnclosingListItemBlock(textEditor, lineNumber);
+      var level: number;
+      if (owner !== undefined) {
+        level = owner.parsedLine.level + 1;
+      } else if (usesContentColumns(document)) {
+        level = 0;
+      } else {
+        level = Math.floor(getIndentationWidth(line.text, tabSize) / tabSize);
+      }
+      plainLines.push({ line: line, level: level });
+    }
+  }
+  return { parsedLines: parsedLines, plainLines: plainLines };
+}
+
+/**
+ * Creates a list item for a line which isn't one, with the rest of the line as its
+ * remainder.
+ *
+ * @param textEditor The text editor
+ * @param plainLine The line and the level of the new list item
+ * @param fullMarker The full marker of the new list item
+ * @returns The new list item
+ */
+function createListItem(
+  textEditor: TextEditor,
+  plainLine: PlainLine,
+  fullMarker: string
+): EditedParsedLine {
+  const { line, level } = plainLine;
+  const quotePrefix = getQuotePrefix(line.text);
+  const remainder = line.text.substring(
+    quotePrefix.length + getIndentation(line.text).length
+  );
+  const editedParsedLine = new EditedParsedLine(
+    {
+      lineNumber: line.lineNumber,
+      text:
+        quotePrefix +
+        fullMarker.trimStart() +
+        getMarkerSpacing(fullMarker.trimStart()) +
+        remainder,
+    },
+    textEditor
+  );
+  editedParsedLine.setIndentationLevel(level);
+  editedParsedLine.setFullMarker(fullMarker);
+  return editedParsedLine;
+}
+
+/**
+ * Works out what toggling a kind of list on the selection does. The lines covered by
+ * the selections which aren't list items become list items of that kind, at the level
+ * of their indentation or nested under the list item they belong to, and list items of
+ * other kinds are changed to it, keeping their levels. Task list checkboxes are added
+ * or removed as needed, and ordered lists are renumbered. If every line is already a
+ * list item of that kind, their markers are removed instead, leaving their text where
+ * it is.
+ *
+ * @param textEditor The text editor that the user is typing in
+ * @param kind The kind of list to toggle
+ * @returns The text edits to make
+ */
+export function getToggleListEdits(textEditor: TextEditor, kind: ListKind): TextEdit[] {
+  const { parsedLines, plainLines } = getSelectedLines(textEditor);
+  const listEdit = new ListEdit(textEditor);
+  if (
+    plainLines.length === 0 &&
+    parsedLines.every((parsedLine) => getListKind(parsedLine) === kind)
+  ) {
+    for (const parsedLine of parsedLines) {
+      listEdit.removeMarker(parsedLine, parsedLine.initialSpacing);
+    }
+    return listEdit.getTextEdits();
+  }
+
+  // Get the list markers for each level of indentation we might need
+  const levels = [
+    ...parsedLines.map((parsedLine) => parsedLine.level),
+    ...plainLines.map((plainLine) => plainLine.level),
+  ];
+  const markerLevels = getMarkerLevels(textEditor, Math.max(...levels));
+
+  for (const parsedLine of parsedLines) {
+    const currentKind = getListKind(parsedLine);
+    if (currentKind === kind) {
+      continue;
+    }
+    const editedParsedLine = listEdit.editLine(parsedLine);
+    if (kind === "task") {
+      if (currentKind === "numbered") {
+        editedParsedLine.setFullMarker(
+          chooseFullMarker(textEditor.document, markerLevels, parsedLine.level, false)
+        );
+      }
+      editedParsedLine.setMarker(editedParsedLine.marker + " [ ]");
+    } else if (kind === "bullet") {
+      if (currentKind === "task") {
+        editedParsedLine.setMarker(removeCheckbox(editedParsedLine.marker));
+      } else {
+        editedParsedLine.setFullMarker(
+          chooseFullMarker(textEditor.document, markerLevels, parsedLine.level, false)
+        );
+      }
+    } else {
+      editedParsedLine.setFullMarker(
+        chooseFullMarker(textEditor.document, markerLevels, parsedLine.level, true)
+      );
+    }
+    if (editedParsedLine.markerIsNumber) {
+      editedParsedLine.setMarkerNumber(
+        determineMarkerNumber(
+          textEditor,
+          parsedLine.line.lineNumber,
+          parsedLine.level,
+          parsedLine.quoteDepth
+        )
+      );
+    }
+  }
+
+  for (const plainLine of plainLines) {
+    const editedParsedLine = createListItem(
+      textEditor,
+      plainLine,
+      chooseFullMarker(
+        textEditor.document,
+        markerLevels,
+        plainLine.level,
+        kind === "numbered"
+      )
+    );
+    if (kind === "task") {
+      editedParsedLine.setMarker(editedParsedLine.marker + " [ ]");
+    }
+    if (editedParsedLine.markerIsNumber) {
+      editedParsedLine.setMarkerNumber(
+        determineMarkerNumber(
+          textEditor,
+          plainLine.line.lineNumber,
+          plainLine.level,
+          editedParsedLine.quoteDepth
+        )
+      );
+    }
+    listEdit.addMarker(plainLine.line, editedParsedLine);
+  }
+  return listEdit.getTextEdits();
+}
@@ -0,0 +1,496 @@
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { getFormatListsEdits } from "./formatting";
+import {
+  ListLintRule,
+  ListProblem,
+  findListProblems,
+  getFixAllTitle,
+  getListProblemFixEdits,
+} from "./listDiagnostics";
+import { getListRange } from "./listItem";
+import { getListFoldingRanges, getListSelectionRanges } from "./listRanges";
+import { SettingsProvider } from "./listSettings";
+import {
+  MarkdownListsrcSection,
+  MarkdownListsrcSyntaxError,
+  getMarkdownListsrcSetting,
+  markdownListsrcFileName,
+  parseMarkdownListsrc,
+} from "./markdownListsrc";
+import {
+  Position,
+  Range,
+  Selection,
+  TextEdit,
+  TextEditor,
+  createTextEditor,
+} from "./textDocument";
+
+/**
+ * Converts a position from the list logic into a VS Code position.
+ *
+ * @param position The position
+ * @returns The VS Code position
+ */
+export function toVscodePosition(position: Position): vscode.Position {
+  return new vscode.Position(position.line, position.character);
+}
+
+/**
+ * Converts a range from the list logic into a VS Code range.
+ *
+ * @param range The range
+ * @returns The VS Code range
+ */
+export function toVscodeRange(range: Range): vscode.Range {
+  return new vscode.Range(toVscodePosition(range.start), toVscodePosition(range.end));
+}
+
+/**
+ * Converts a selection from the list logic into a VS Code selection.
+ *
+ * @param selection The selection
+ * @returns The VS Code selection
+ */
+export function toVscodeSelection(selection: Selection): vscode.Selection {
+  return new vscode.Selection(
+    toVscodePosition(selection.anchor),
+    toVscodePosition(selection.active)
+  );
+}
+
+/**
+ * Converts a text edit from the list logic into a VS Code text edit.
+ *
+ * @param textEdit The text edit
+ * @returns The VS Code text edit
+ */
+export function toVscodeTextEdit(textEdit: TextEdit): vscode.TextEdit {
+  return vscode.TextEdit.replace(toVscodeRange(textEdit.range), textEdit.newText);
+}
+
+/**
+ * Writes some text edits from the list logic to a text editor.
+ *
+ * @param edit The edit object that allows us to modify the text editor
+ * @param textEdits The text edits
+ */
+export function applyTextEdits(
+  edit: vscode.TextEditorEdit,
+  textEdits: TextEdit[]
+): void {
+  for (const textEdit of textEdits) {
+    edit.replace(toVscodeRange(textEdit.range), textEdit.newText);
+  }
+}
+
+/**
+ * The sections of the `.markdownlistsrc` file in each workspace folder, keyed by the
+ * URI of the file. Files which haven't been read yet have no sections.
+ */
+const markdownListsrcCache = new Map<string, MarkdownListsrcSection[]>();
+
+/**
+ * The number of times each `.markdownlistsrc` file has started being read, keyed by the
+ * URI of the file, so that a read which finishes after a later one can be ignored.
+ */
+const markdownListsrcReads = new Map<string, number>();
+
+/**
+ * Reads the `.markdownlistsrc` file in the root of a workspace folder into the cache,
+ * through VS Code's file system so that it works for remote and virtual workspaces too.
+ * A missing file has no sections, and so does one which can't be read or parsed, which
+ * the user is warned about. Call this when the workspace folder is opened and whenever
+ * the file changes.
+ *
+ * @param folder The workspace folder
+ */
+export async function loadMarkdownListsrc(
+  folder: vscode.WorkspaceFolder
+): Promise<void> {
+  const uri = vscode.Uri.joinPath(folder.uri, markdownListsrcFileName);
+  const key = uri.toString();
+  const read = (markdownListsrcReads.get(key) ?? 0) + 1;
+  markdownListsrcReads.set(key, read);
+
+  var sections: MarkdownListsrcSection[] = [];
+  try {
+    const content = await vscode.workspace.fs.readFile(uri);
+    sections = parseMarkdownListsrc(Buffer.from(content).toString("utf8"));
+  } catch (e) {
+    if (e instanceof MarkdownListsrcSyntaxError) {
+      vscode.window.showWarningMessage(e.message);
+    } else if (!(e instanceof vscode.FileSystemError && e.code === "FileNotFound")) {
+      vscode.window.showWarningMessage(
+        `${markdownListsrcFileName}: couldn't read ${uri.toString(true)}: ${
+          e instanceof Error ? e.message : e
+        }`
+      );
+    }
+  }
+  if (markdownListsrcReads.get(key) === read) {
+    markdownListsrcCache.set(key, sections);
+    clearSettingsCache();
+  }
+}
+
+/**
+ * Forgets the `.markdownlistsrc` file of a workspace folder which has been closed.
+ *
+ * @param folder The workspace folder
+ */
+export function unloadMarkdownListsrc(folder: vscode.WorkspaceFolder): void {
+  const key = vscode.Uri.joinPath(folder.uri, markdownListsrcFileName).toString();
+  markdownListsrcCache.delete(key);
+  markdownListsrcReads.delete(key);
+  clearSettingsCache();
+}
+
+/**
+ * The settings read so far for each document, along with the version of the document
+ * they were read for. Commands read the same settings many times over, once for each
+ * line they look at, so they are only read through VS Code once per document version.
+ */
+var settingsCache = new WeakMap<
+  object,
+  { version: number; values: Map<string, unknown> }
+>();
+
+/**
+ * Forgets the settings read so far, so that they are read again when they are next
+ * needed. Call this when the user's settings change.
+ */
+export function clearSettingsCache(): void {
+  settingsCache = new WeakMap();
+}
+
+/**
+ * Reads the list logic's settings for a document from the `.markdownlistsrc` file of
+ * its workspace folder, or failing that from the user's `markdown-clever-lists`
+ * settings for it. Settings are cached until the document or the settings change.
+ *
+ * @param key The name of the setting
+ * @param document The document the setting is read for
+ * @returns The value of the setting
+ */
+export const vscodeSettingsProvider: SettingsProvider = (key, document) => {
+  var cached = settingsCache.get(document);
+  if (cached === undefined || cached.version !== document.version) {
+    cached = { version: document.version, values: new Map() };
+    settingsCache.set(document, cached);
+  }
+  if (cached.values.has(key)) {
+    return cached.values.get(key);
+  }
+
+  // VS Code's documents are passed to the list logic as they are, so they have a URI
+  const uri = (document as Partial<vscode.TextDocument>).uri;
+  const folder =
+    uri !== undefined ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+  var value: unknown = undefined;
+  if (uri !== undefined && folder !== undefined) {
+    value = getMarkdownListsrcSetting(
+      markdownListsrcCache.get(
+        vscode.Uri.joinPath(folder.uri, markdownListsrcFileName).toString()
+      ) ?? [],
+      path.posix.relative(folder.uri.path, uri.path),
+      key
+    );
+  }
+  if (value === undefined) {
+    value = vscode.workspace.getConfiguration("markdown-clever-lists", uri).get(key);
+  }
+  cached.values.set(key, value);
+  return value;
+};
+
+/**
+ * Gets the indentation options for a document, from a visible text editor showing it
+ * if there is one, or from the user's editor settings otherwise.
+ *
+ * @param document The document
+ * @returns The tab size and whether to indent with spaces
+ */
+function getIndentationOptions(
+  document: vscode.TextDocument
+): vscode.FormattingOptions {
+  const textEditor = vscode.window.visibleTextEditors.find(
+    (visibleTextEditor) => visibleTextEditor.document === document
+  );
+  if (textEditor !== undefined) {
+    return {
+      tabSize: textEditor.options.tabSize as number,
+      insertSpaces: textEditor.options.insertSpaces as boolean,
+    };
+  }
+  const config = vscode.workspace.getConfiguration("editor", document);
+  return {
+    tabSize: config.get("tabSize") as number,
+    insertSpaces: config.get("insertSpaces") as boolean,
+  };
+}
+
+/**
+ * Creates a text editor for the list logic showing a document, so that documents can
+ * be formatted and checked whether or not they are open in an editor.
+ *
+ * @param document The document
+ * @param options The indentation options, which default to those of the document
+ * @returns A text editor for the document
+ */
+function createDocumentEditor(
+  document: vscode.TextDocument,
+  options: vscode.FormattingOptions = getIndentationOptions(document)
+): TextEditor {
+  return createTextEditor(document, options);
+}
+
+/**
+ * Formats the lists in markdown documents, for Format Document, Format Selection and
+ * formatting on save, paste and type. See `getFormatListsEdits`.
+ */
+export class ListFormattingProvider
+  implements
+    vscode.DocumentFormattingEditProvider,
+    vscode.DocumentRangeFormattingEditProvider,
+    vscode.OnTypeFormattingEditProvider
+{
+  public provideDocumentFormattingEdits(
+    document: vscode.TextDocument,
+    options: vscode.FormattingOptions
+  ): vscode.TextEdit[] {
+    return getFormatListsEdits(createDocumentEditor(document, options), [
+      { startLine: 0, endLine: document.lineCount - 1 },
+    ]).map(toVscodeTextEdit);
+  }
+
+  public provideDocumentRangeFormattingEdits(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    options: vscode.FormattingOptions
+  ): vscode.TextEdit[] {
+    var endLine = range.end.line;
+    if (endLine > range.start.line && range.end.character === 0) {
+      endLine--;
+    }
+    return getFormatListsEdits(createDocumentEditor(document, options), [
+      { startLine: range.start.line, endLine: endLine },
+    ]).map(toVscodeTextEdit);
+  }
+
+  /**
+   * Formats the list which the line before the cursor is in, once a new line has been
+   * started after it.
+   */
+  public provideOnTypeFormattingEdits(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    ch: string,
+    options: vscode.FormattingOptions
+  ): vscode.TextEdit[] {
+    if (position.line === 0) {
+      return [];
+    }
+    const textEditor = createDocumentEditor(document, options);
+    return getFormatListsEdits(textEditor, [
+      getListRange(textEditor, position.line - 1),
+    ]).map(toVscodeTextEdit);
+  }
+}
+
+/**
+ * Makes each list item with anything nested under it foldable. See
+ * `getListFoldingRanges`.
+ */
+export class ListFoldingRangeProvider implements vscode.FoldingRangeProvider {
+  public provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+    return getListFoldingRanges(createDocumentEditor(document)).map(
+      (foldingRange) =>
+        new vscode.FoldingRange(foldingRange.startLine, foldingRange.endLine)
+    );
+  }
+}
+
+/**
+ * Lets Expand Selection step out through a list. Positions which aren't in a list are
+ * left to other providers. See `getListSelectionRanges`.
+ */
+export class ListSelectionRangeProvider implements vscode.SelectionRangeProvider {
+  public provideSelectionRanges(
+    document: vscode.TextDocument,
+    positions: vscode.Position[]
+  ): vscode.SelectionRange[] {
+    const textEditor = createDocumentEditor(document);
+    const selectionRanges: vscode.SelectionRange[] = [];
+    for (const position of positions) {
+      const ranges = getListSelectionRanges(textEditor, position);
+      if (ranges === undefined) {
+        return [];
+      }
+      var selectionRange: vscode.SelectionRange | undefined = undefined;
+      for (const range of ranges) {
+        selectionRange = new vscode.SelectionRange(
+          toVscodeRange(range),
+          selectionRange
+        );
+      }
+      selectionRanges.push(selectionRange as vscode.SelectionRange);
+    }
+    return selectionRanges;
+  }
+}
+
+/**
+ * Reports the problems in the lists of a markdown document as diagnostics, if the
+ * document is visible in a text editor. Documents which aren't visible keep the
+ * diagnostics they had, and are checked again when they are shown. See
+ * `findListProblems`.
+ *
+ * @param document The document to check
+ * @param diagnostics The diagnostic collection to report the problems in
+ */
+export function updateListDiagnostics(
+  document: vscode.TextDocument,
+  diagnostics: vscode.DiagnosticCollection
+): void {
+  if (
+    document.languageId !== "markdown" ||
+    document.isClosed ||
+    !vscode.window.visibleTextEditors.some(
+      (visibleEditor) => visibleEditor.document === document
+    )
+  ) {
+    return;
+  }
+  diagnostics.set(
+    document.uri,
+    findListProblems(createDocumentEditor(document)).map((problem) => {
+      const diagnostic = new vscode.Diagnostic(
+        toVscodeRange(problem.range),
+        problem.message,
+        vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = "markdown-clever-lists";
+      diagnostic.code = problem.rule;
+      return diagnostic;
+    })
+  );
+}
+
+/**
+ * How long to wait after a document changes before checking it again, in milliseconds.
+ */
+const listDiagnosticsDelay = 300;
+
+/**
+ * The checks waiting to be made, keyed by the URI of the document.
+ */
+const pendingListDiagnostics = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Checks a document again once it has stopped changing for a moment, so that the lists
+ * aren't checked on every key press. See `updateListDiagnostics`.
+ *
+ * @param document The document to check
+ * @param diagnostics The diagnostic collection to report the problems in
+ */
+export function scheduleListDiagnostics(
+  document: vscode.TextDocument,
+  diagnostics: vscode.DiagnosticCollection
+): void {
+  if (document.languageId !== "markdown") {
+    return;
+  }
+  const key = document.uri.toString();
+  clearTimeout(pendingListDiagnostics.get(key));
+  pendingListDiagnostics.set(
+    key,
+    setTimeout(() => {
+      pendingListDiagnostics.delete(key);
+      updateListDiagnostics(document, diagnostics);
+    }, listDiagnosticsDelay)
+  );
+}
+
+/**
+ * Makes a workspace edit which fixes some problems in a document in one go.
+ *
+ * @param document The document
+ * @param textEditor The text editor for the document
+ * @param problems The problems to fix
+ * @returns The workspace edit
+ */
+function createFixEdit(
+  document: vscode.TextDocument,
+  textEditor: TextEditor,
+  problems: ListProblem[]
+): vscode.WorkspaceEdit {
+  const workspaceEdit = new vscode.WorkspaceEdit();
+  workspaceEdit.set(
+    document.uri,
+    getListProblemFixEdits(textEditor, problems).map(toVscodeTextEdit)
+  );
+  return workspaceEdit;
+}
+
+/**
+ * Offers quick fixes for the problems reported by `updateListDiagnostics`, each of which
+ * makes the same edit the extension would make itself. Each problem can be fixed on its
+ * own, or along with every other problem of the same kind in the file.
+ */
+export class ListCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const diagnostics = context.diagnostics.filter(
+      (diagnostic) => diagnostic.source === "markdown-clever-lists"
+    );
+    if (diagnostics.length === 0) {
+      return [];
+    }
+    const textEditor = createDocumentEditor(document);
+    const problems = findListProblems(textEditor);
+
+    const codeActions: vscode.CodeAction[] = [];
+    const fixAllRules = new Set<ListLintRule>();
+    for (const diagnostic of diagnostics) {
+      const problem = problems.find(
+        (problem) =>
+          problem.rule === diagnostic.code &&
+          toVscodeRange(problem.range).isEqual(diagnostic.range)
+      );
+      if (problem === undefined) {
+        continue;
+      }
+      const codeAction = new vscode.CodeAction(
+        problem.fixTitle,
+        vscode.CodeActionKind.QuickFix
+      );
+      codeAction.diagnostics = [diagnostic];
+      codeAction.edit = createFixEdit(document, textEditor, [problem]);
+      codeAction.isPreferred = true;
+      codeActions.push(codeAction);
+      fixAllRules.add(problem.rule);
+    }
+
+    for (const rule of fixAllRules) {
+      const ruleProblems = problems.filter((problem) => problem.rule === rule);
+      if (ruleProblems.length < 2) {
+        continue;
+      }
+      const codeAction = new vscode.CodeAction(
+        getFixAllTitle(rule),
+        vscode.CodeActionKind.QuickFix
+      );
+      codeAction.edit = createFixEdit(document, textEditor, ruleProblems);
+      codeActions.push(codeAction);
+    }
+    return codeActions;
+  }
+}